@@ -1,8 +1,53 @@
+import { PureInfiniteScrollMemoryStorage, PureInfiniteScrollSessionStorage } from "./src/cache";
+import { PureInfiniteScrollElement } from "./src/element";
 import { PureInfiniteScroll, PureInfiniteScrollEvent } from "./src/infinite-scroll";
+import { PureInfiniteScrollScheduler } from "./src/scheduler";
 
 // Check if `window` is defined (to ensure compatibility in various environments)
 if (typeof window !== 'undefined') {
     window.PureInfiniteScroll = PureInfiniteScroll;
+
+    // Register the custom element once, the library may be loaded several times
+    if (window.customElements && !window.customElements.get('pure-infinite-scroll')) {
+        window.customElements.define('pure-infinite-scroll', PureInfiniteScrollElement);
+    }
 }
 
-export { PureInfiniteScroll, PureInfiniteScrollEvent };
+export { PureInfiniteScroll, PureInfiniteScrollElement, PureInfiniteScrollEvent, PureInfiniteScrollMemoryStorage, PureInfiniteScrollScheduler, PureInfiniteScrollSessionStorage };
+export type {
+    PureInfiniteScrollAutoFillOptions,
+    PureInfiniteScrollAxis,
+    PureInfiniteScrollCompletion,
+    PureInfiniteScrollContainer,
+    PureInfiniteScrollDetection,
+    PureInfiniteScrollDirection,
+    PureInfiniteScrollErrorDetail,
+    PureInfiniteScrollEventDetail,
+    PureInfiniteScrollEventMap,
+    PureInfiniteScrollEvictDetail,
+    PureInfiniteScrollFillDetail,
+    PureInfiniteScrollListener,
+    PureInfiniteScrollLoadDetail,
+    PureInfiniteScrollLoadEndDetail,
+    PureInfiniteScrollLoadStatus,
+    PureInfiniteScrollNewContentDetail,
+    PureInfiniteScrollOptions,
+    PureInfiniteScrollScrollDetail,
+    PureInfiniteScrollState,
+    PureInfiniteScrollTimeoutDetail,
+    PureInfiniteScrollUnreadDetail,
+} from "./src/infinite-scroll";
+export type { PureInfiniteScrollAccessibilityOptions } from "./src/accessibility";
+export type { PureInfiniteScrollCacheEntry, PureInfiniteScrollCacheOptions, PureInfiniteScrollCacheStorage } from "./src/cache";
+export type { PureInfiniteScrollChatOptions } from "./src/chat";
+export type { PureInfiniteScrollHistoryAnchor, PureInfiniteScrollHistoryOptions, PureInfiniteScrollHistoryState } from "./src/history";
+export type { PureInfiniteScrollIndicatorContext, PureInfiniteScrollIndicators, PureInfiniteScrollIndicatorState, PureInfiniteScrollIndicatorTemplate } from "./src/indicators";
+export type { PureInfiniteScrollGetKey } from "./src/keys";
+export type { PureInfiniteScrollLoadAroundContext, PureInfiniteScrollLoadAroundResult, PureInfiniteScrollLoader, PureInfiniteScrollLoaderContext, PureInfiniteScrollLoadResult, PureInfiniteScrollRender } from "./src/loader";
+export type { PureInfiniteScrollPage, PureInfiniteScrollPaginationOptions } from "./src/pagination";
+export type { PureInfiniteScrollPrefetchOptions } from "./src/prefetch";
+export type { PureInfiniteScrollRetryOptions } from "./src/retry";
+export type { PureInfiniteScrollSchedulerOptions, PureInfiniteScrollSchedulerStats, PureInfiniteScrollSchedulerTask } from "./src/scheduler";
+export type { PureInfiniteScrollAnchoringOptions } from "./src/scroll-anchor";
+export type { PureInfiniteScrollSentinels } from "./src/sentinels";
+export type { PureInfiniteScrollVirtualOptions } from "./src/virtual-list";
@@ -0,0 +1,244 @@
+/**
+ * Options of the accessibility mode.
+ */
+export interface PureInfiniteScrollAccessibilityOptions {
+    /**
+     * The accessible name of the feed.
+     */
+    label?: string;
+
+    /**
+     * The total number of items when known, reported by `aria-setsize`.
+     * Unknown by default until the end is reached.
+     */
+    setSize?: number;
+
+    /**
+     * The messages announced through the live region.
+     */
+    messages?: {
+        /**
+         * Announced when items are loaded, "{count} items loaded" by default.
+         */
+        loaded?: (count: number) => string;
+
+        /**
+         * Announced when the end is reached, "End of the list" by default.
+         */
+        end?: string;
+    };
+}
+
+/**
+ * Styles hiding the live region visually while keeping it announced.
+ */
+const VISUALLY_HIDDEN = 'position: absolute; width: 1px; height: 1px; margin: -1px; padding: 0; overflow: hidden; clip: rect(0, 0, 0, 0); white-space: nowrap; border: 0;';
+
+/**
+ * Feed accessibility.
+ * Applies the WAI-ARIA feed pattern to the content container, announces the loads
+ * and moves the focus between the articles with Page Down and Page Up.
+ */
+export class FeedAccessibility {
+    /**
+     * The feed element.
+     */
+    private feed: HTMLElement;
+
+    /**
+     * Returns the articles of the feed, in order.
+     */
+    private getArticles: () => HTMLElement[];
+
+    /**
+     * The options of the accessibility mode.
+     */
+    private options: PureInfiniteScrollAccessibilityOptions;
+
+    /**
+     * The polite live region announcing the loads.
+     */
+    private liveRegion: HTMLElement;
+
+    /**
+     * The keyboard listener, kept to be removed on disconnect.
+     */
+    private keydownListener: (event: KeyboardEvent) => void;
+
+    /**
+     * The attributes of the feed before the accessibility mode, restored on disconnect.
+     */
+    private previousAttributes: { [name: string]: string | null } = {};
+
+    /**
+     * Constructor.
+     * @param feed The feed element.
+     * @param getArticles Returns the articles of the feed, in order.
+     * @param options The options of the accessibility mode.
+     */
+    constructor(feed: HTMLElement, getArticles: () => HTMLElement[], options: PureInfiniteScrollAccessibilityOptions = {}) {
+        this.feed = feed;
+        this.getArticles = getArticles;
+        this.options = options;
+
+        this.setFeedAttribute('role', 'feed');
+        this.setFeedAttribute('aria-busy', 'false');
+
+        if (options.label) {
+            this.setFeedAttribute('aria-label', options.label);
+        }
+
+        this.liveRegion = document.createElement('div');
+        this.liveRegion.setAttribute('aria-live', 'polite');
+        this.liveRegion.setAttribute('role', 'status');
+        this.liveRegion.setAttribute('style', VISUALLY_HIDDEN);
+        document.body.appendChild(this.liveRegion);
+
+        this.keydownListener = this.handleKeydown.bind(this);
+        this.feed.addEventListener('keydown', this.keydownListener);
+    }
+
+    /**
+     * Sets whether the feed is loading.
+     * @param busy Whether a load is pending.
+     */
+    public setBusy(busy: boolean) {
+        this.feed.setAttribute('aria-busy', String(busy));
+    }
+
+    /**
+     * Updates the roles, positions and set size of the articles.
+     * The positions of the articles already in the feed are kept, the new ones are numbered around them.
+     * @param isComplete Whether the end is reached, making the set size known.
+     * @returns number The number of new articles.
+     */
+    public update(isComplete: boolean): number {
+        const articles = this.getArticles();
+
+        // Number the articles from the first one already positioned
+        let first = 1;
+        for (let index = 0; index < articles.length; index++) {
+            const position = parseInt(articles[index].getAttribute('aria-posinset') ?? '', 10);
+
+            if (position > 0) {
+                first = Math.max(position - index, 1);
+                break;
+            }
+        }
+
+        const setSize = this.options.setSize ?? (isComplete ? first + articles.length - 1 : -1);
+        let added = 0;
+
+        articles.forEach((article, index) => {
+            if (!article.hasAttribute('aria-posinset')) {
+                added++;
+            }
+
+            if (article.tagName !== 'ARTICLE' && !article.hasAttribute('role')) {
+                article.setAttribute('role', 'article');
+            }
+
+            if (!article.hasAttribute('tabindex')) {
+                article.setAttribute('tabindex', '0');
+            }
+
+            article.setAttribute('aria-posinset', String(first + index));
+            article.setAttribute('aria-setsize', String(setSize));
+        });
+
+        return added;
+    }
+
+    /**
+     * Announces the loaded items and the end of the feed through the live region.
+     * @param count The number of loaded items.
+     * @param isEnd Whether the end is reached.
+     */
+    public announce(count: number, isEnd: boolean) {
+        const messages: string[] = [];
+
+        if (count > 0) {
+            messages.push(this.options.messages?.loaded?.(count) ?? `${count} items loaded`);
+        }
+
+        if (isEnd) {
+            messages.push(this.options.messages?.end ?? 'End of the list');
+        }
+
+        if (messages.length > 0) {
+            this.liveRegion.textContent = messages.join(' ');
+        }
+    }
+
+    /**
+     * Moves the focus out of articles about to be removed, to the closest remaining article.
+     * @param removed The articles about to be removed.
+     */
+    public releaseFocus(removed: Node[]) {
+        // The focused element of the shadow root holding the feed, if any
+        const focused = (this.feed.getRootNode() as Document | ShadowRoot).activeElement;
+
+        if (!focused || !removed.some((node) => node.contains(focused))) {
+            return;
+        }
+
+        const articles = this.getArticles();
+        const remaining = articles.filter((article) => removed.indexOf(article) === -1);
+        const index = articles.indexOf(removed.filter((node) => node.contains(focused))[0] as HTMLElement);
+
+        // The first remaining article after the focused one, or the last one before it
+        const target = remaining.filter((article) => articles.indexOf(article) > index)[0] ?? remaining[remaining.length - 1];
+
+        target?.focus({ preventScroll: true });
+    }
+
+    /**
+     * Restores the feed and removes the live region and the keyboard listener.
+     */
+    public disconnect() {
+        this.feed.removeEventListener('keydown', this.keydownListener);
+        this.liveRegion.parentNode?.removeChild(this.liveRegion);
+
+        Object.keys(this.previousAttributes).forEach((name) => {
+            const value = this.previousAttributes[name];
+
+            if (value === null) {
+                this.feed.removeAttribute(name);
+            } else {
+                this.feed.setAttribute(name, value);
+            }
+        });
+    }
+
+    /**
+     * Sets an attribute of the feed, keeping its previous value.
+     * @param name The name of the attribute.
+     * @param value The value.
+     */
+    private setFeedAttribute(name: string, value: string) {
+        this.previousAttributes[name] = this.feed.getAttribute(name);
+        this.feed.setAttribute(name, value);
+    }
+
+    /**
+     * Moves the focus to the next or previous article with Page Down or Page Up.
+     * @param event The keyboard event.
+     */
+    private handleKeydown(event: KeyboardEvent) {
+        if (event.key !== 'PageDown' && event.key !== 'PageUp') {
+            return;
+        }
+
+        const articles = this.getArticles();
+        const index = articles.map((article) => article.contains(event.target as Node)).indexOf(true);
+
+        if (index === -1) {
+            return;
+        }
+
+        const target = articles[index + (event.key === 'PageDown' ? 1 : -1)];
+
+        event.preventDefault();
+        target?.focus();
+    }
+}
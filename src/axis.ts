@@ -0,0 +1,238 @@
+/**
+ * The axis along which the container scrolls.
+ */
+export type PureInfiniteScrollAxis = 'vertical' | 'horizontal';
+
+/**
+ * The scroll root, an element or the window for document-level scrolling.
+ */
+export type PureInfiniteScrollContainer = HTMLElement | Window;
+
+/**
+ * How the browser reports `scrollLeft` in right-to-left documents.
+ * - negative: 0 at the start, decreasing towards the end (specification).
+ * - reverse: 0 at the start, increasing towards the end.
+ * - default: the maximum at the start, 0 at the end.
+ */
+export type RtlScrollType = 'negative' | 'reverse' | 'default';
+
+/**
+ * The scroll geometry along an axis.
+ */
+export interface ScrollMetrics {
+    /**
+     * The distance scrolled from the start of the content.
+     */
+    offset: number;
+
+    /**
+     * The size of the content.
+     */
+    scrollSize: number;
+
+    /**
+     * The size of the visible area.
+     */
+    clientSize: number;
+}
+
+/**
+ * The cached right-to-left scroll type of the browser.
+ */
+let rtlScrollType: RtlScrollType | null = null;
+
+/**
+ * Detects how the browser reports `scrollLeft` in right-to-left documents.
+ * @returns RtlScrollType
+ */
+export function getRtlScrollType(): RtlScrollType {
+    if (rtlScrollType) {
+        return rtlScrollType;
+    }
+
+    // Scroll a tiny overflowing right-to-left element and watch its scrollLeft
+    const element = document.createElement('div');
+    element.dir = 'rtl';
+    element.style.cssText = 'position:absolute;top:-1000px;width:4px;height:1px;overflow:scroll;font-size:14px;';
+    element.textContent = 'ABCD';
+    document.body.appendChild(element);
+
+    rtlScrollType = 'reverse';
+
+    if (element.scrollLeft > 0) {
+        rtlScrollType = 'default';
+    } else {
+        element.scrollLeft = 1;
+
+        if (element.scrollLeft === 0) {
+            rtlScrollType = 'negative';
+        }
+    }
+
+    document.body.removeChild(element);
+
+    return rtlScrollType;
+}
+
+/**
+ * Converts a raw `scrollLeft` into the distance scrolled from the start of the content.
+ * @param scrollLeft The raw scrollLeft.
+ * @param maxOffset The maximum distance that can be scrolled.
+ * @param type The right-to-left scroll type, `null` in left-to-right documents.
+ * @returns number
+ */
+export function normalizeScrollLeft(scrollLeft: number, maxOffset: number, type: RtlScrollType | null): number {
+    switch (type) {
+        case 'negative':
+            return -scrollLeft;
+        case 'default':
+            return maxOffset - scrollLeft;
+        default:
+            return scrollLeft;
+    }
+}
+
+/**
+ * Converts a distance from the start of the content into a raw `scrollLeft`.
+ * @param offset The distance from the start of the content.
+ * @param maxOffset The maximum distance that can be scrolled.
+ * @param type The right-to-left scroll type, `null` in left-to-right documents.
+ * @returns number
+ */
+export function denormalizeScrollLeft(offset: number, maxOffset: number, type: RtlScrollType | null): number {
+    switch (type) {
+        case 'negative':
+            return -offset;
+        case 'default':
+            return maxOffset - offset;
+        default:
+            return offset;
+    }
+}
+
+/**
+ * Checks if a scroll root is the window.
+ * @param container The scroll root.
+ * @returns boolean
+ */
+export function isWindow(container: PureInfiniteScrollContainer): container is Window {
+    return (container as Window).window === container;
+}
+
+/**
+ * Resolves the scroll root, the scrolling element of the document being scrolled through the window.
+ * @param container The scroll root.
+ * @returns PureInfiniteScrollContainer
+ */
+export function resolveScrollContainer(container: PureInfiniteScrollContainer): PureInfiniteScrollContainer {
+    if (!isWindow(container) && (container === document.scrollingElement || container === document.documentElement)) {
+        return window;
+    }
+
+    return container;
+}
+
+/**
+ * Returns the scrolling element of the document.
+ * @returns Element
+ */
+function getDocumentScrollingElement(): Element {
+    return document.scrollingElement ?? document.documentElement;
+}
+
+/**
+ * Returns the right-to-left scroll type of an element, `null` in left-to-right documents.
+ * @param element The scrollable element.
+ * @returns RtlScrollType | null
+ */
+function getElementRtlScrollType(element: Element): RtlScrollType | null {
+    return getComputedStyle(element).direction === 'rtl' ? getRtlScrollType() : null;
+}
+
+/**
+ * Checks if a scroll root is laid out from right to left.
+ * @param container The scroll root.
+ * @returns boolean
+ */
+export function isRtl(container: PureInfiniteScrollContainer): boolean {
+    return getComputedStyle(isWindow(container) ? document.documentElement : container).direction === 'rtl';
+}
+
+/**
+ * Returns the scroll geometry of the window along an axis.
+ * @param axis The scroll axis.
+ * @returns ScrollMetrics
+ */
+function getWindowScrollMetrics(axis: PureInfiniteScrollAxis): ScrollMetrics {
+    const scrollingElement = getDocumentScrollingElement();
+
+    if (axis === 'vertical') {
+        return {
+            offset: window.scrollY,
+            scrollSize: scrollingElement.scrollHeight,
+            clientSize: window.innerHeight,
+        };
+    }
+
+    const { scrollWidth } = scrollingElement;
+
+    return {
+        offset: normalizeScrollLeft(window.scrollX, scrollWidth - window.innerWidth, getElementRtlScrollType(document.documentElement)),
+        scrollSize: scrollWidth,
+        clientSize: window.innerWidth,
+    };
+}
+
+/**
+ * Returns the scroll geometry of an element, or of the window, along an axis.
+ * @param element The scroll root.
+ * @param axis The scroll axis.
+ * @returns ScrollMetrics
+ */
+export function getScrollMetrics(element: PureInfiniteScrollContainer, axis: PureInfiniteScrollAxis): ScrollMetrics {
+    if (isWindow(element)) {
+        return getWindowScrollMetrics(axis);
+    }
+
+    if (axis === 'vertical') {
+        return {
+            offset: element.scrollTop,
+            scrollSize: element.scrollHeight,
+            clientSize: element.clientHeight,
+        };
+    }
+
+    const { scrollLeft, scrollWidth, clientWidth } = element;
+
+    return {
+        offset: normalizeScrollLeft(scrollLeft, scrollWidth - clientWidth, getElementRtlScrollType(element)),
+        scrollSize: scrollWidth,
+        clientSize: clientWidth,
+    };
+}
+
+/**
+ * Scrolls an element, or the window, to a distance from the start of the content along an axis.
+ * @param element The scroll root.
+ * @param axis The scroll axis.
+ * @param offset The distance from the start of the content.
+ */
+export function setScrollOffset(element: PureInfiniteScrollContainer, axis: PureInfiniteScrollAxis, offset: number) {
+    if (isWindow(element)) {
+        if (axis === 'vertical') {
+            window.scrollTo(window.scrollX, offset);
+        } else {
+            const maxOffset = getDocumentScrollingElement().scrollWidth - window.innerWidth;
+            window.scrollTo(denormalizeScrollLeft(offset, maxOffset, getElementRtlScrollType(document.documentElement)), window.scrollY);
+        }
+
+        return;
+    }
+
+    if (axis === 'vertical') {
+        element.scrollTop = offset;
+        return;
+    }
+
+    element.scrollLeft = denormalizeScrollLeft(offset, element.scrollWidth - element.clientWidth, getElementRtlScrollType(element));
+}
@@ -0,0 +1,285 @@
+import type { PureInfiniteScrollEdge } from "./events";
+import type { PureInfiniteScrollLoadResult } from "./loader";
+
+/**
+ * A page recorded in the cache.
+ */
+export interface PureInfiniteScrollCacheEntry<T = unknown> {
+    /**
+     * The items of the page.
+     */
+    items: T[];
+
+    /**
+     * The cursor of the page after it in its direction, if provided by the loader.
+     */
+    cursor?: string | null;
+
+    /**
+     * Whether there was more to load in its direction, if provided by the loader.
+     */
+    hasMore?: boolean;
+
+    /**
+     * The time the page was loaded, in milliseconds since the epoch.
+     */
+    time: number;
+}
+
+/**
+ * Storage of the cached pages.
+ */
+export interface PureInfiniteScrollCacheStorage {
+    /**
+     * Returns the entry of a key, `null` when none is stored.
+     */
+    get(key: string): PureInfiniteScrollCacheEntry | null;
+
+    /**
+     * Stores the entry of a key.
+     */
+    set(key: string, entry: PureInfiniteScrollCacheEntry): void;
+
+    /**
+     * Removes the entry of a key.
+     */
+    delete(key: string): void;
+}
+
+/**
+ * Options of the page cache.
+ */
+export interface PureInfiniteScrollCacheOptions {
+    /**
+     * The id of the list, the cached pages are shared by the infinite scrolls with the same id.
+     */
+    id: string;
+
+    /**
+     * The storage of the cached pages, a storage in memory shared by all the infinite scrolls by default.
+     */
+    storage?: PureInfiniteScrollCacheStorage;
+
+    /**
+     * The time in milliseconds during which a cached page is fresh, 5 minutes by default.
+     */
+    ttl?: number;
+
+    /**
+     * Whether the expired pages are still displayed right away, then replaced with the fresh ones once loaded.
+     * They are dropped and loaded again otherwise.
+     */
+    staleWhileRevalidate?: boolean;
+}
+
+/**
+ * A page found in the cache.
+ */
+export interface CachedPage<T> {
+    /**
+     * The cached page.
+     */
+    result: PureInfiniteScrollLoadResult<T>;
+
+    /**
+     * Whether the page expired and has to be revalidated.
+     */
+    isStale: boolean;
+}
+
+/**
+ * Storage of the cached pages in memory, lost when the page is reloaded.
+ */
+export class PureInfiniteScrollMemoryStorage implements PureInfiniteScrollCacheStorage {
+    /**
+     * The stored entries.
+     */
+    private entries: Map<string, PureInfiniteScrollCacheEntry> = new Map();
+
+    /**
+     * Returns the entry of a key.
+     * @param key The key.
+     * @returns PureInfiniteScrollCacheEntry | null `null` when none is stored.
+     */
+    public get(key: string): PureInfiniteScrollCacheEntry | null {
+        return this.entries.get(key) ?? null;
+    }
+
+    /**
+     * Stores the entry of a key.
+     * @param key The key.
+     * @param entry The entry.
+     */
+    public set(key: string, entry: PureInfiniteScrollCacheEntry) {
+        this.entries.set(key, entry);
+    }
+
+    /**
+     * Removes the entry of a key.
+     * @param key The key.
+     */
+    public delete(key: string) {
+        this.entries.delete(key);
+    }
+}
+
+/**
+ * Storage of the cached pages in `sessionStorage`, kept across the reloads of the browser tab.
+ * The items must be serializable to JSON.
+ */
+export class PureInfiniteScrollSessionStorage implements PureInfiniteScrollCacheStorage {
+    /**
+     * The prefix of the `sessionStorage` keys.
+     */
+    private prefix: string;
+
+    /**
+     * Constructor.
+     * @param prefix The prefix of the `sessionStorage` keys, "pureInfiniteScroll:" by default.
+     */
+    constructor(prefix: string = 'pureInfiniteScroll:') {
+        this.prefix = prefix;
+    }
+
+    /**
+     * Returns the entry of a key.
+     * @param key The key.
+     * @returns PureInfiniteScrollCacheEntry | null `null` when none is stored or it can't be read.
+     */
+    public get(key: string): PureInfiniteScrollCacheEntry | null {
+        try {
+            const value = sessionStorage.getItem(this.prefix + key);
+
+            return value === null ? null : JSON.parse(value);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Stores the entry of a key, ignored when the storage is full or unavailable.
+     * @param key The key.
+     * @param entry The entry.
+     */
+    public set(key: string, entry: PureInfiniteScrollCacheEntry) {
+        try {
+            sessionStorage.setItem(this.prefix + key, JSON.stringify(entry));
+        } catch {
+            // The page is loaded again next time
+        }
+    }
+
+    /**
+     * Removes the entry of a key.
+     * @param key The key.
+     */
+    public delete(key: string) {
+        try {
+            sessionStorage.removeItem(this.prefix + key);
+        } catch {
+            // Nothing was stored
+        }
+    }
+}
+
+/**
+ * The storage used by default, shared so the lists rebuilt with the same id find their pages.
+ */
+const defaultStorage = new PureInfiniteScrollMemoryStorage();
+
+/**
+ * Page cache.
+ * Records the loaded pages under the id of the list, their edge and their page or cursor, with an expiration.
+ * The cursor and `hasMore` of a page belong to the direction it was loaded in, a page loaded at the other edge is another entry.
+ */
+export class PageCache<T> {
+    /**
+     * The id of the list.
+     */
+    private id: string;
+
+    /**
+     * The storage of the cached pages.
+     */
+    private storage: PureInfiniteScrollCacheStorage;
+
+    /**
+     * The time during which a cached page is fresh.
+     */
+    private ttl: number;
+
+    /**
+     * Whether the expired pages are still used, to be revalidated.
+     */
+    private staleWhileRevalidate: boolean;
+
+    /**
+     * Constructor.
+     * @param options The options of the page cache.
+     */
+    constructor(options: PureInfiniteScrollCacheOptions) {
+        this.id = options.id;
+        this.storage = options.storage ?? defaultStorage;
+        this.ttl = options.ttl ?? 5 * 60 * 1000;
+        this.staleWhileRevalidate = options.staleWhileRevalidate ?? false;
+    }
+
+    /**
+     * Returns a cached page, dropping it once expired unless stale pages are used.
+     * @param edge The edge the page is loaded at.
+     * @param page The number of the page.
+     * @param cursor The cursor of the page, `null` when not using cursors.
+     * @returns CachedPage | null `null` when the page isn't cached or expired.
+     */
+    public get(edge: PureInfiniteScrollEdge, page: number, cursor: string | null): CachedPage<T> | null {
+        const key = this.getKey(edge, page, cursor);
+        const entry = this.storage.get(key);
+
+        if (!entry) {
+            return null;
+        }
+
+        const isStale = Date.now() - entry.time >= this.ttl;
+
+        if (isStale && !this.staleWhileRevalidate) {
+            this.storage.delete(key);
+            return null;
+        }
+
+        return {
+            result: { items: entry.items as T[], cursor: entry.cursor, hasMore: entry.hasMore },
+            isStale,
+        };
+    }
+
+    /**
+     * Records a loaded page. The pages holding DOM nodes aren't recorded, the nodes can't be reused.
+     * @param edge The edge the page was loaded at.
+     * @param page The number of the page.
+     * @param cursor The cursor of the page, `null` when not using cursors.
+     * @param result The loaded page.
+     */
+    public set(edge: PureInfiniteScrollEdge, page: number, cursor: string | null, result: PureInfiniteScrollLoadResult<T>) {
+        if (result.items.some((item) => item instanceof Node)) {
+            return;
+        }
+
+        this.storage.set(this.getKey(edge, page, cursor), {
+            items: result.items,
+            cursor: result.cursor,
+            hasMore: result.hasMore,
+            time: Date.now(),
+        });
+    }
+
+    /**
+     * Returns the key of a page at an edge, the cursor identifying it when provided.
+     * @param edge The edge of the page.
+     * @param page The number of the page.
+     * @param cursor The cursor of the page.
+     * @returns string
+     */
+    private getKey(edge: PureInfiniteScrollEdge, page: number, cursor: string | null): string {
+        return cursor !== null ? `${this.id}:${edge}:cursor:${cursor}` : `${this.id}:${edge}:page:${page}`;
+    }
+}
@@ -0,0 +1,168 @@
+import { getScrollMetrics, PureInfiniteScrollAxis, PureInfiniteScrollContainer, setScrollOffset } from "./axis";
+import type { ContentTracker } from "./content";
+
+/**
+ * Options of the chat mode.
+ */
+export interface PureInfiniteScrollChatOptions {
+    /**
+     * The distance in pixels from the end within which the view follows the appended content, 10 by default.
+     */
+    stickThreshold?: number;
+
+    /**
+     * Whether to start scrolled to the end, `true` by default.
+     */
+    startAtEnd?: boolean;
+}
+
+/**
+ * Callbacks of the chat follower.
+ */
+export interface ChatCallbacks {
+    /**
+     * Called when content is appended at the end while the user is away from it.
+     */
+    onNewContent: (count: number) => void;
+
+    /**
+     * Called when the number of items appended since the user left the end changes.
+     */
+    onUnreadCount: (unreadCount: number) => void;
+}
+
+/**
+ * Chat follower.
+ * Keeps the view at the end while the user is there when content is appended,
+ * and counts the appended items otherwise.
+ */
+export class ChatFollower {
+    /**
+     * The container of the scrollable area, or the window.
+     */
+    private container: PureInfiniteScrollContainer;
+
+    /**
+     * The axis along which the container scrolls.
+     */
+    private axis: PureInfiniteScrollAxis;
+
+    /**
+     * The distance from the end within which the view follows the appended content.
+     */
+    private stickThreshold: number;
+
+    /**
+     * The callbacks of the follower.
+     */
+    private callbacks: ChatCallbacks;
+
+    /**
+     * Whether the user was at the end on the last scroll.
+     */
+    public isStuck: boolean = true;
+
+    /**
+     * The number of items appended since the user left the end.
+     */
+    public unreadCount: number = 0;
+
+    /**
+     * The scroll listener, kept to be removed on disconnect.
+     */
+    private scrollListener: () => void;
+
+    /**
+     * The observer of the appended content.
+     */
+    private mutationObserver: MutationObserver;
+
+    /**
+     * Constructor.
+     * @param container The container of the scrollable area, or the window.
+     * @param contentTracker The tracker of the items of the content.
+     * @param axis The axis along which the container scrolls.
+     * @param options The options of the chat mode.
+     * @param callbacks The callbacks of the follower.
+     */
+    constructor(container: PureInfiniteScrollContainer, contentTracker: ContentTracker, axis: PureInfiniteScrollAxis, options: PureInfiniteScrollChatOptions, callbacks: ChatCallbacks) {
+        this.container = container;
+        this.axis = axis;
+        this.stickThreshold = options.stickThreshold ?? 10;
+        this.callbacks = callbacks;
+
+        if (options.startAtEnd ?? true) {
+            this.scrollToEnd();
+        } else {
+            this.update();
+        }
+
+        this.scrollListener = this.update.bind(this);
+        this.container.addEventListener('scroll', this.scrollListener, { passive: true });
+
+        // The items appended after all the displayed ones are new content
+        this.mutationObserver = contentTracker.observe((changes) => this.handleAppendedItems(changes.end.length));
+    }
+
+    /**
+     * Checks if the user is at the end, and resets the unread count once there.
+     */
+    public update() {
+        const { offset, scrollSize, clientSize } = getScrollMetrics(this.container, this.axis);
+        this.isStuck = scrollSize - offset - clientSize <= this.stickThreshold;
+
+        if (this.isStuck) {
+            this.setUnreadCount(0);
+        }
+    }
+
+    /**
+     * Scrolls to the end and resets the unread count.
+     */
+    public scrollToEnd() {
+        setScrollOffset(this.container, this.axis, getScrollMetrics(this.container, this.axis).scrollSize);
+
+        this.isStuck = true;
+        this.setUnreadCount(0);
+    }
+
+    /**
+     * Stops following the appended content.
+     */
+    public disconnect() {
+        this.container.removeEventListener('scroll', this.scrollListener);
+        this.mutationObserver.disconnect();
+    }
+
+    /**
+     * Follows or counts the items appended at the end.
+     * @param count The number of appended items.
+     */
+    private handleAppendedItems(count: number) {
+        if (count === 0) {
+            return;
+        }
+
+        if (this.isStuck) {
+            this.scrollToEnd();
+            return;
+        }
+
+        // Leave the view in place and report the content below it
+        this.setUnreadCount(this.unreadCount + count);
+        this.callbacks.onNewContent(count);
+    }
+
+    /**
+     * Sets the unread count, reporting the changes.
+     * @param unreadCount The number of unread items.
+     */
+    private setUnreadCount(unreadCount: number) {
+        if (unreadCount === this.unreadCount) {
+            return;
+        }
+
+        this.unreadCount = unreadCount;
+        this.callbacks.onUnreadCount(unreadCount);
+    }
+}
@@ -0,0 +1,212 @@
+/**
+ * Items added by a batch of mutations, split by the edge of the content they were added at.
+ */
+export interface ContentChanges {
+    /**
+     * The items added before all the items already displayed, in order.
+     */
+    start: Element[];
+
+    /**
+     * The items added after all the items already displayed, in order.
+     */
+    end: Element[];
+}
+
+/**
+ * Returns the elements matching a selector in a subtree, including the open shadow roots, in tree order.
+ * @param root The root of the subtree, not included.
+ * @param selector The selector.
+ * @returns Element[]
+ */
+export function querySelectorAllDeep(root: Element | ShadowRoot, selector: string): Element[] {
+    const elements: Element[] = [];
+
+    Array.prototype.forEach.call(root.children, (element: Element) => {
+        if (element.matches(selector)) {
+            elements.push(element);
+        }
+
+        if (element.shadowRoot) {
+            elements.push(...querySelectorAllDeep(element.shadowRoot, selector));
+        }
+
+        elements.push(...querySelectorAllDeep(element, selector));
+    });
+
+    return elements;
+}
+
+/**
+ * Content tracker.
+ * Identifies the items of the content container, directly or in its subtree,
+ * and reports the items added at either edge by the mutations.
+ */
+export class ContentTracker {
+    /**
+     * The container of the content child's.
+     */
+    private contentContainer: HTMLElement;
+
+    /**
+     * Checks if a node is auxiliary, such as the sentinels and the indicators.
+     */
+    private isAuxiliary: (node: Node) => boolean;
+
+    /**
+     * The selector of the items, `null` when every child is an item.
+     */
+    private itemSelector: string | null;
+
+    /**
+     * Whether the items are searched and observed in the whole subtree, including the open shadow roots.
+     */
+    private subtree: boolean;
+
+    /**
+     * Constructor.
+     * @param contentContainer The container of the content child's.
+     * @param isAuxiliary Checks if a node is auxiliary, such as the sentinels and the indicators.
+     * @param itemSelector The selector of the items, every child being an item when omitted.
+     * @param subtree Whether the items are searched and observed in the whole subtree, including the open shadow roots.
+     */
+    constructor(contentContainer: HTMLElement, isAuxiliary: (node: Node) => boolean, itemSelector?: string, subtree: boolean = false) {
+        this.contentContainer = contentContainer;
+        this.isAuxiliary = isAuxiliary;
+        this.itemSelector = itemSelector ?? null;
+        this.subtree = subtree;
+    }
+
+    /**
+     * Checks if a node is an item.
+     * @param node The node to be checked.
+     * @returns boolean
+     */
+    public isItem(node: Node): boolean {
+        if (!(node instanceof Element) || this.isAuxiliary(node)) {
+            return false;
+        }
+
+        if (this.itemSelector === null) {
+            return node.parentNode === this.contentContainer;
+        }
+
+        return node.matches(this.itemSelector) && (this.subtree ? this.contentContainer !== node : node.parentNode === this.contentContainer);
+    }
+
+    /**
+     * Returns the items of the content container, in order.
+     * @returns Element[]
+     */
+    public getItems(): Element[] {
+        if (this.itemSelector !== null && this.subtree) {
+            return querySelectorAllDeep(this.contentContainer, this.itemSelector).filter((element) => !this.isAuxiliary(element));
+        }
+
+        return Array.prototype.filter.call(this.contentContainer.children, (element: Element) => this.isItem(element)) as Element[];
+    }
+
+    /**
+     * Observes the items added to the content container.
+     * @param callback Called with the items added at either edge by each batch of mutations adding items.
+     * @returns MutationObserver The observer, to be disconnected.
+     */
+    public observe(callback: (changes: ContentChanges) => void): MutationObserver {
+        const options = { childList: true, subtree: this.subtree };
+
+        const observer = new MutationObserver((mutations) => {
+            const addedItems: Element[] = [];
+
+            // Analyze all the records of the batch, the items may be added by several of them
+            mutations.forEach((mutation) => {
+                Array.prototype.forEach.call(mutation.addedNodes, (node: Node) => {
+                    this.collectItems(node, addedItems);
+
+                    if (this.subtree && node instanceof Element) {
+                        this.observeShadowRoots(observer, node, options);
+                    }
+                });
+            });
+
+            if (addedItems.length === 0) {
+                return;
+            }
+
+            const changes = this.getChanges(addedItems);
+
+            if (changes.start.length > 0 || changes.end.length > 0) {
+                callback(changes);
+            }
+        });
+
+        observer.observe(this.contentContainer, options);
+
+        if (this.subtree) {
+            this.observeShadowRoots(observer, this.contentContainer, options);
+        }
+
+        return observer;
+    }
+
+    /**
+     * Splits the added items by the edge they were added at, by identity with the displayed items.
+     * @param addedItems The added items.
+     * @returns ContentChanges
+     */
+    private getChanges(addedItems: Element[]): ContentChanges {
+        const items = this.getItems();
+        const isAdded = (item: Element) => addedItems.indexOf(item) !== -1;
+
+        let startCount = 0;
+        while (startCount < items.length && isAdded(items[startCount])) {
+            startCount++;
+        }
+
+        let endCount = 0;
+        while (endCount < items.length && isAdded(items[items.length - 1 - endCount])) {
+            endCount++;
+        }
+
+        return {
+            start: items.slice(0, startCount),
+            end: items.slice(items.length - endCount),
+        };
+    }
+
+    /**
+     * Collects the items among an added node and, with the subtree, its descendants.
+     * @param node The added node.
+     * @param items The collected items.
+     */
+    private collectItems(node: Node, items: Element[]) {
+        if (this.isItem(node) && items.indexOf(node as Element) === -1) {
+            items.push(node as Element);
+        }
+
+        if (this.subtree && this.itemSelector !== null && node instanceof Element) {
+            querySelectorAllDeep(node, this.itemSelector).forEach((element) => {
+                if (this.isItem(element) && items.indexOf(element) === -1) {
+                    items.push(element);
+                }
+            });
+        }
+    }
+
+    /**
+     * Observes the open shadow roots of an element and of its descendants.
+     * @param observer The observer.
+     * @param element The element.
+     * @param options The options of the observation.
+     */
+    private observeShadowRoots(observer: MutationObserver, element: Element, options: MutationObserverInit) {
+        if (element.shadowRoot) {
+            observer.observe(element.shadowRoot, options);
+        }
+
+        querySelectorAllDeep(element, '*').forEach((descendant) => {
+            if (descendant.shadowRoot) {
+                observer.observe(descendant.shadowRoot, options);
+            }
+        });
+    }
+}
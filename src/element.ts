@@ -0,0 +1,168 @@
+import { PureInfiniteScrollEvent } from "./events";
+import { PureInfiniteScroll } from "./infinite-scroll";
+
+/**
+ * The base class of the custom element, a placeholder where custom elements are unavailable (e.g. server-side).
+ */
+const BaseElement: typeof HTMLElement = typeof HTMLElement !== 'undefined'
+    ? HTMLElement
+    : class {} as typeof HTMLElement;
+
+/**
+ * The `<pure-infinite-scroll>` custom element.
+ * The element is the scrollable container and re-dispatches the events of the infinite scroll as DOM events,
+ * with their detail in `event.detail`.
+ *
+ * Attributes:
+ * - threshold: the threshold in pixels from the edges of the scrollable area.
+ * - events: the events to be handled, separated by spaces or commas.
+ * - content-selector: the selector of the content container within the element or its open shadow root, the element itself by default.
+ * - item-selector: the selector of the items, every child of the content container by default.
+ * - observe-subtree: present to search the items and observe the content changes in the whole subtree of the content container.
+ */
+export class PureInfiniteScrollElement extends BaseElement {
+    /**
+     * The attributes reacted to.
+     */
+    static get observedAttributes(): string[] {
+        return ['threshold', 'events', 'content-selector', 'item-selector', 'observe-subtree'];
+    }
+
+    /**
+     * The wrapped infinite scroll, `null` while the element is disconnected.
+     */
+    public infiniteScroll: PureInfiniteScroll | null = null;
+
+    /**
+     * The observer waiting for the content container, while it isn't parsed or rendered yet.
+     */
+    private contentObserver: MutationObserver | null = null;
+
+    /**
+     * Creates the infinite scroll once the element is in the document.
+     */
+    connectedCallback() {
+        this.create();
+    }
+
+    /**
+     * Destroys the infinite scroll once the element left the document.
+     */
+    disconnectedCallback() {
+        this.contentObserver?.disconnect();
+        this.contentObserver = null;
+
+        this.infiniteScroll?.destroy();
+        this.infiniteScroll = null;
+    }
+
+    /**
+     * Applies the changed attributes to the infinite scroll.
+     * @param name The name of the attribute.
+     * @param oldValue The previous value.
+     * @param newValue The new value.
+     */
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+        if (oldValue === newValue) {
+            return;
+        }
+
+        // Look for the new content container while waiting for it
+        if (!this.infiniteScroll) {
+            if (this.contentObserver && name === 'content-selector') {
+                this.disconnectedCallback();
+                this.create();
+            }
+
+            return;
+        }
+
+        switch (name) {
+            case 'threshold':
+                this.infiniteScroll.threshold = this.threshold;
+                break;
+            case 'events':
+                this.infiniteScroll.handleEvents = this.events ?? this.infiniteScroll.handleEvents;
+                break;
+            default:
+                // The content container and the detection of the items can't be changed, start over
+                this.disconnectedCallback();
+                this.create();
+        }
+    }
+
+    /**
+     * The threshold read from the attribute, 0 by default.
+     */
+    get threshold(): number {
+        return parseFloat(this.getAttribute('threshold') ?? '') || 0;
+    }
+
+    /**
+     * The events read from the attribute, `undefined` to handle both edges of the vertical axis.
+     */
+    get events(): PureInfiniteScrollEvent[] | undefined {
+        const value = this.getAttribute('events');
+
+        return value === null
+            ? undefined
+            : value.split(/[\s,]+/).filter((event) => event !== '') as PureInfiniteScrollEvent[];
+    }
+
+    /**
+     * Creates the infinite scroll and re-dispatches its events.
+     * Without content container yet, e.g. when the element is connected before its children are parsed, waits for it.
+     */
+    private create() {
+        const contentContainer = this.findContentContainer();
+
+        if (!contentContainer) {
+            this.waitForContentContainer();
+            return;
+        }
+
+        this.infiniteScroll = new PureInfiniteScroll(this, contentContainer, this.threshold, this.events, {
+            itemSelector: this.getAttribute('item-selector') ?? undefined,
+            observeSubtree: this.hasAttribute('observe-subtree'),
+        });
+
+        Object.keys(PureInfiniteScrollEvent).forEach((key) => {
+            const event = PureInfiniteScrollEvent[key as keyof typeof PureInfiniteScrollEvent];
+
+            this.infiniteScroll!.on(event, (detail: unknown) => {
+                this.dispatchEvent(new CustomEvent(event, { detail }));
+            });
+        });
+    }
+
+    /**
+     * Returns the content container within the element or its open shadow root.
+     * @returns HTMLElement | null `null` when no element matches the selector.
+     */
+    private findContentContainer(): HTMLElement | null {
+        const selector = this.getAttribute('content-selector');
+
+        return selector ? this.shadowRoot?.querySelector<HTMLElement>(selector) ?? this.querySelector<HTMLElement>(selector) : this;
+    }
+
+    /**
+     * Creates the infinite scroll once an element matching the selector is added.
+     */
+    private waitForContentContainer() {
+        this.contentObserver = new MutationObserver(() => {
+            if (!this.findContentContainer()) {
+                return;
+            }
+
+            this.contentObserver?.disconnect();
+            this.contentObserver = null;
+            this.create();
+        });
+
+        this.contentObserver.observe(this, { childList: true, subtree: true });
+
+        if (this.shadowRoot) {
+            this.contentObserver.observe(this.shadowRoot, { childList: true, subtree: true });
+        }
+    }
+}
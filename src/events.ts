@@ -0,0 +1,298 @@
+export enum PureInfiniteScrollEvent {
+    ScrolledBottom = 'scrolledBottom',
+    ScrolledTop = 'scrolledTop',
+    ScrolledEnd = 'scrolledEnd',
+    ScrolledStart = 'scrolledStart',
+    ReachedEnd = 'reachedEnd',
+    ReachedStart = 'reachedStart',
+    LoadError = 'loadError',
+    LoadTimeout = 'loadTimeout',
+    Filled = 'filled',
+    Evicted = 'evicted',
+    LoadStart = 'loadStart',
+    LoadEnd = 'loadEnd',
+    NewContentBelow = 'newContentBelow',
+    UnreadCount = 'unreadCount',
+}
+
+/**
+ * The events emitted when the user reaches an edge of the scrollable area.
+ * "scrolledBottom"/"scrolledTop" on the vertical axis, "scrolledEnd"/"scrolledStart" on the horizontal axis.
+ */
+export type PureInfiniteScrollDirection =
+    | PureInfiniteScrollEvent.ScrolledBottom
+    | PureInfiniteScrollEvent.ScrolledTop
+    | PureInfiniteScrollEvent.ScrolledEnd
+    | PureInfiniteScrollEvent.ScrolledStart;
+
+/**
+ * The detail passed to the listeners of the events.
+ */
+export interface PureInfiniteScrollEventDetail {
+    /**
+     * The direction the event relates to.
+     */
+    direction: PureInfiniteScrollDirection;
+
+    /**
+     * The number of the page to be loaded, or of the last displayed page for "reachedEnd"/"reachedStart".
+     */
+    page: number;
+
+    /**
+     * The cursor of the page to be loaded, `null` when not using cursors.
+     */
+    cursor: string | null;
+}
+
+/**
+ * The detail passed to the listeners of "loadStart", describing the position when the event was emitted.
+ * On the horizontal axis, `scrollTop` and `scrollHeight` are the distance from the start and the scroll width.
+ */
+export interface PureInfiniteScrollLoadDetail extends PureInfiniteScrollEventDetail {
+    /**
+     * The distance from the start of the scrollable area in pixels.
+     */
+    scrollTop: number;
+
+    /**
+     * The size of the scrollable area in pixels.
+     */
+    scrollHeight: number;
+
+    /**
+     * The distance between the visible area and the edge of the direction in pixels.
+     */
+    distanceToEdge: number;
+
+    /**
+     * The recent scroll velocity in pixels per second, positive towards the end.
+     */
+    velocity: number;
+
+    /**
+     * The number of loads already completed in this direction.
+     */
+    loadCount: number;
+
+    /**
+     * The time of the emission in milliseconds since the epoch.
+     */
+    timestamp: number;
+}
+
+/**
+ * The detail passed to the listeners of the scroll events, along with their completion handle.
+ */
+export interface PureInfiniteScrollScrollDetail extends PureInfiniteScrollLoadDetail {
+    /**
+     * Completes the event once its content is inserted, allowing it to be emitted again.
+     * Calls after the event completed, failed or timed out are ignored.
+     * @param addedCount The number of items added, 0 skips the scroll position adjustment.
+     */
+    done: (addedCount?: number) => void;
+
+    /**
+     * Completes the event once the promise resolves, with the number of items added,
+     * or reports the error if it rejects.
+     * @param promise The promise inserting the content.
+     */
+    waitUntil: (promise: Promise<number | void>) => void;
+}
+
+/**
+ * The detail passed to the listeners of "loadTimeout".
+ */
+export interface PureInfiniteScrollTimeoutDetail {
+    /**
+     * The direction which timed out.
+     */
+    direction: PureInfiniteScrollDirection;
+
+    /**
+     * The timeout in milliseconds.
+     */
+    timeout: number;
+}
+
+/**
+ * The detail passed to the listeners of "filled".
+ */
+export interface PureInfiniteScrollFillDetail {
+    /**
+     * The number of events emitted to fill the container.
+     */
+    iterations: number;
+
+    /**
+     * Whether the content overflows the container by the threshold,
+     * `false` when the filling stopped at the maximum number of iterations or with nothing more to load.
+     */
+    overflowing: boolean;
+}
+
+/**
+ * How a load ended.
+ * - completed: the content was inserted.
+ * - failed: the error was reported.
+ * - timedOut: the watchdog timeout elapsed.
+ * - cancelled: the event was cleared by `reset`.
+ */
+export type PureInfiniteScrollLoadStatus = 'completed' | 'failed' | 'timedOut' | 'cancelled';
+
+/**
+ * The detail passed to the listeners of "loadEnd".
+ */
+export interface PureInfiniteScrollLoadEndDetail {
+    /**
+     * The direction which was loading.
+     */
+    direction: PureInfiniteScrollDirection;
+
+    /**
+     * How the load ended.
+     */
+    status: PureInfiniteScrollLoadStatus;
+
+    /**
+     * The time in milliseconds since the event was emitted.
+     */
+    duration: number;
+
+    /**
+     * The number of loads completed in this direction, including this one when completed.
+     */
+    loadCount: number;
+
+    /**
+     * The time of the end in milliseconds since the epoch.
+     */
+    timestamp: number;
+}
+
+/**
+ * The detail passed to the listeners of "evicted".
+ */
+export interface PureInfiniteScrollEvictDetail {
+    /**
+     * The direction loading the evicted items again, re-armed by the eviction.
+     */
+    direction: PureInfiniteScrollDirection;
+
+    /**
+     * The evicted nodes, in document order.
+     */
+    nodes: Node[];
+
+    /**
+     * The range of pages still displayed.
+     */
+    pages: { first: number, last: number };
+}
+
+/**
+ * The detail passed to the listeners of "unreadCount", in chat mode.
+ */
+export interface PureInfiniteScrollUnreadDetail {
+    /**
+     * The number of items appended at the end since the user left it.
+     */
+    unreadCount: number;
+}
+
+/**
+ * The detail passed to the listeners of "newContentBelow", in chat mode.
+ */
+export interface PureInfiniteScrollNewContentDetail extends PureInfiniteScrollUnreadDetail {
+    /**
+     * The number of items just appended at the end.
+     */
+    count: number;
+}
+
+/**
+ * The detail passed to the listeners of "loadError".
+ */
+export interface PureInfiniteScrollErrorDetail {
+    /**
+     * The direction which failed to load.
+     */
+    direction: PureInfiniteScrollDirection;
+
+    /**
+     * The error reported by the loader or the listener.
+     */
+    error: unknown;
+
+    /**
+     * The number of consecutive failed attempts in this direction.
+     */
+    attempt: number;
+
+    /**
+     * The delay in milliseconds before the automatic retry, `null` when there is none.
+     */
+    retryDelay: number | null;
+}
+
+/**
+ * An edge of the content, "start" being the top (left) and "end" the bottom (right).
+ */
+export type PureInfiniteScrollEdge = 'start' | 'end';
+
+/**
+ * Checks if an event relates to the start of the content (top or start edge).
+ * @param event The event to be checked.
+ * @returns boolean
+ */
+export function isStartEvent(event: PureInfiniteScrollDirection): boolean {
+    return event === PureInfiniteScrollEvent.ScrolledTop || event === PureInfiniteScrollEvent.ScrolledStart;
+}
+
+/**
+ * Returns the edge of the content an event relates to.
+ * @param event The event.
+ * @returns PureInfiniteScrollEdge
+ */
+export function getEdge(event: PureInfiniteScrollDirection): PureInfiniteScrollEdge {
+    return isStartEvent(event) ? 'start' : 'end';
+}
+
+/**
+ * Creates an object holding a value for every direction.
+ * @param value The initial value.
+ * @returns object
+ */
+export function createDirectionMap<V>(value: V): { [key in PureInfiniteScrollDirection]: V } {
+    return {
+        [PureInfiniteScrollEvent.ScrolledBottom]: value,
+        [PureInfiniteScrollEvent.ScrolledTop]: value,
+        [PureInfiniteScrollEvent.ScrolledEnd]: value,
+        [PureInfiniteScrollEvent.ScrolledStart]: value,
+    };
+}
+
+/**
+ * The detail passed to the listeners of each event.
+ */
+export interface PureInfiniteScrollEventMap {
+    scrolledBottom: PureInfiniteScrollScrollDetail;
+    scrolledTop: PureInfiniteScrollScrollDetail;
+    scrolledEnd: PureInfiniteScrollScrollDetail;
+    scrolledStart: PureInfiniteScrollScrollDetail;
+    reachedEnd: PureInfiniteScrollEventDetail;
+    reachedStart: PureInfiniteScrollEventDetail;
+    loadError: PureInfiniteScrollErrorDetail;
+    loadTimeout: PureInfiniteScrollTimeoutDetail;
+    filled: PureInfiniteScrollFillDetail;
+    evicted: PureInfiniteScrollEvictDetail;
+    loadStart: PureInfiniteScrollLoadDetail;
+    loadEnd: PureInfiniteScrollLoadEndDetail;
+    newContentBelow: PureInfiniteScrollNewContentDetail;
+    unreadCount: PureInfiniteScrollUnreadDetail;
+}
+
+/**
+ * A listener of an event, called with its detail.
+ */
+export type PureInfiniteScrollListener<E extends keyof PureInfiniteScrollEventMap> = (detail: PureInfiniteScrollEventMap[E]) => void;
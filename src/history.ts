@@ -0,0 +1,112 @@
+/**
+ * Options of the history synchronization.
+ */
+export interface PureInfiniteScrollHistoryOptions {
+    /**
+     * The key under which the state is recorded in `history.state`, "pureInfiniteScroll" by default.
+     * Use distinct keys for several infinite scrolls on the same page.
+     */
+    key?: string;
+
+    /**
+     * The URL parameter recording the last loaded page, such as "page".
+     * Omitted to leave the URL unchanged.
+     */
+    urlParam?: string;
+}
+
+/**
+ * The item kept in place when the state is restored.
+ */
+export interface PureInfiniteScrollHistoryAnchor {
+    /**
+     * The id of the first visible item.
+     */
+    id: string;
+
+    /**
+     * The offset of the item from the start of the visible area in pixels.
+     */
+    offset: number;
+}
+
+/**
+ * The state recorded in the history.
+ */
+export interface PureInfiniteScrollHistoryState {
+    /**
+     * The first loaded page, unknown when restored from the URL parameter only.
+     */
+    first?: number;
+
+    /**
+     * The last loaded page.
+     */
+    last: number;
+
+    /**
+     * The first visible item, `null` when none has an id.
+     */
+    anchor: PureInfiniteScrollHistoryAnchor | null;
+}
+
+/**
+ * History synchronization.
+ * Records the loaded pages and the first visible item in the current history entry, and reads them back.
+ */
+export class HistorySync {
+    /**
+     * The key of the state in `history.state`.
+     */
+    private key: string;
+
+    /**
+     * The URL parameter recording the last loaded page, if any.
+     */
+    private urlParam: string | null;
+
+    /**
+     * Constructor.
+     * @param options The options of the history synchronization.
+     */
+    constructor(options: PureInfiniteScrollHistoryOptions = {}) {
+        this.key = options.key ?? 'pureInfiniteScroll';
+        this.urlParam = options.urlParam ?? null;
+    }
+
+    /**
+     * Reads the state of the current history entry, falling back to the URL parameter.
+     * @returns PureInfiniteScrollHistoryState | null `null` when nothing was recorded.
+     */
+    public read(): PureInfiniteScrollHistoryState | null {
+        const state = history.state?.[this.key];
+
+        if (state) {
+            return state;
+        }
+
+        if (!this.urlParam) {
+            return null;
+        }
+
+        const page = parseInt(new URLSearchParams(location.search).get(this.urlParam) ?? '', 10);
+
+        return page > 0 ? { last: page, anchor: null } : null;
+    }
+
+    /**
+     * Records a state in the current history entry, without adding an entry.
+     * @param state The state to be recorded.
+     */
+    public write(state: PureInfiniteScrollHistoryState) {
+        let url: string | undefined;
+
+        if (this.urlParam) {
+            const location = new URL(window.location.href);
+            location.searchParams.set(this.urlParam, String(state.last));
+            url = location.href;
+        }
+
+        history.replaceState({ ...history.state, [this.key]: state }, '', url);
+    }
+}
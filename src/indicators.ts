@@ -0,0 +1,215 @@
+import type { PureInfiniteScrollEdge } from "./events";
+
+/**
+ * The state shown by an indicator.
+ * - loading: the direction is waiting for its content.
+ * - error: the direction failed to load.
+ * - end: the direction has nothing more to load.
+ */
+export type PureInfiniteScrollIndicatorState = 'loading' | 'error' | 'end';
+
+/**
+ * Context passed to the indicator templates.
+ */
+export interface PureInfiniteScrollIndicatorContext {
+    /**
+     * The edge of the indicator.
+     */
+    edge: PureInfiniteScrollEdge;
+
+    /**
+     * The state shown by the indicator.
+     */
+    state: PureInfiniteScrollIndicatorState;
+
+    /**
+     * The error reported for the "error" state, `undefined` otherwise.
+     */
+    error: unknown;
+
+    /**
+     * Retries the direction of the indicator right away.
+     */
+    retry: () => void;
+}
+
+/**
+ * The content of an indicator: HTML, or a function creating its node.
+ * Clicking an element with the `data-pure-infinite-scroll-retry` attribute in an indicator retries its direction.
+ */
+export type PureInfiniteScrollIndicatorTemplate = string | ((context: PureInfiniteScrollIndicatorContext) => Node);
+
+/**
+ * The templates of the indicators, a state without template shows no indicator.
+ */
+export interface PureInfiniteScrollIndicators {
+    /**
+     * Shown while a direction is waiting for its content.
+     */
+    loading?: PureInfiniteScrollIndicatorTemplate;
+
+    /**
+     * Shown when a direction failed to load, until it's emitted again.
+     */
+    error?: PureInfiniteScrollIndicatorTemplate;
+
+    /**
+     * Shown once a direction has nothing more to load.
+     */
+    end?: PureInfiniteScrollIndicatorTemplate;
+}
+
+/**
+ * Attribute set on the indicators, with their edge as value.
+ */
+const INDICATOR_ATTRIBUTE = 'data-pure-infinite-scroll-indicator';
+
+/**
+ * Attribute of the elements retrying the direction of their indicator when clicked.
+ */
+const RETRY_ATTRIBUTE = 'data-pure-infinite-scroll-retry';
+
+/**
+ * Indicator manager.
+ * Shows the loading, error and end indicators at both ends of the content container.
+ */
+export class IndicatorManager {
+    /**
+     * The container of the content child's.
+     */
+    private contentContainer: HTMLElement;
+
+    /**
+     * The templates of the indicators.
+     */
+    private templates: PureInfiniteScrollIndicators;
+
+    /**
+     * Retries the direction of an edge.
+     */
+    private retry: (edge: PureInfiniteScrollEdge) => void;
+
+    /**
+     * The indicator shown at each edge.
+     */
+    private indicators: { [key in PureInfiniteScrollEdge]: HTMLElement | null } = {
+        start: null,
+        end: null,
+    };
+
+    /**
+     * The state shown at each edge.
+     */
+    private states: { [key in PureInfiniteScrollEdge]: PureInfiniteScrollIndicatorState | null } = {
+        start: null,
+        end: null,
+    };
+
+    /**
+     * Constructor.
+     * @param contentContainer The container of the content child's.
+     * @param templates The templates of the indicators.
+     * @param retry Retries the direction of an edge.
+     */
+    constructor(contentContainer: HTMLElement, templates: PureInfiniteScrollIndicators, retry: (edge: PureInfiniteScrollEdge) => void) {
+        this.contentContainer = contentContainer;
+        this.templates = templates;
+        this.retry = retry;
+    }
+
+    /**
+     * Returns the edge of an indicator node.
+     * @param node The node to be checked.
+     * @returns PureInfiniteScrollEdge | null `null` when the node isn't an indicator.
+     */
+    public getEdge(node: Node | null): PureInfiniteScrollEdge | null {
+        if (node === null) {
+            return null;
+        }
+
+        if (node === this.indicators.start) {
+            return 'start';
+        }
+
+        return node === this.indicators.end ? 'end' : null;
+    }
+
+    /**
+     * Returns the state shown at an edge.
+     * @param edge The edge.
+     * @returns PureInfiniteScrollIndicatorState | null `null` when no state is shown.
+     */
+    public getState(edge: PureInfiniteScrollEdge): PureInfiniteScrollIndicatorState | null {
+        return this.states[edge];
+    }
+
+    /**
+     * Checks if an indicator is shown at an edge.
+     * @param edge The edge.
+     * @returns boolean
+     */
+    public isShown(edge: PureInfiniteScrollEdge): boolean {
+        return this.indicators[edge] !== null;
+    }
+
+    /**
+     * Shows a state at an edge, replacing the previous one.
+     * @param edge The edge.
+     * @param state The state to be shown, `null` to hide the indicator.
+     * @param error The error reported for the "error" state.
+     */
+    public show(edge: PureInfiniteScrollEdge, state: PureInfiniteScrollIndicatorState | null, error?: unknown) {
+        this.remove(edge);
+        this.states[edge] = state;
+
+        const template = state ? this.templates[state] : undefined;
+
+        if (!state || template === undefined) {
+            return;
+        }
+
+        const indicator = document.createElement('div');
+        indicator.setAttribute(INDICATOR_ATTRIBUTE, edge);
+        indicator.setAttribute('data-state', state);
+
+        const retry = () => this.retry(edge);
+
+        if (typeof template === 'string') {
+            indicator.innerHTML = template;
+        } else {
+            indicator.appendChild(template({ edge, state, error, retry }));
+        }
+
+        indicator.addEventListener('click', (event) => {
+            if (event.target instanceof Element && event.target.closest(`[${RETRY_ATTRIBUTE}]`)) {
+                retry();
+            }
+        });
+
+        this.indicators[edge] = indicator;
+
+        if (edge === 'start') {
+            this.contentContainer.insertBefore(indicator, this.contentContainer.firstChild);
+        } else {
+            this.contentContainer.appendChild(indicator);
+        }
+    }
+
+    /**
+     * Removes the indicators.
+     */
+    public disconnect() {
+        this.remove('start');
+        this.remove('end');
+        this.states = { start: null, end: null };
+    }
+
+    /**
+     * Removes the indicator of an edge.
+     * @param edge The edge.
+     */
+    private remove(edge: PureInfiniteScrollEdge) {
+        this.indicators[edge]?.parentNode?.removeChild(this.indicators[edge]!);
+        this.indicators[edge] = null;
+    }
+}
@@ -1,19 +1,243 @@
 import { EventEmitter } from "events";
+import { getScrollMetrics, PureInfiniteScrollAxis, PureInfiniteScrollContainer, resolveScrollContainer, setScrollOffset } from "./axis";
+import { createDirectionMap, getEdge, isStartEvent, PureInfiniteScrollDirection, PureInfiniteScrollEdge, PureInfiniteScrollErrorDetail, PureInfiniteScrollEvent, PureInfiniteScrollEventDetail, PureInfiniteScrollEventMap, PureInfiniteScrollEvictDetail, PureInfiniteScrollFillDetail, PureInfiniteScrollListener, PureInfiniteScrollLoadDetail, PureInfiniteScrollLoadEndDetail, PureInfiniteScrollLoadStatus, PureInfiniteScrollNewContentDetail, PureInfiniteScrollScrollDetail, PureInfiniteScrollTimeoutDetail, PureInfiniteScrollUnreadDetail } from "./events";
+import { PageCache, PureInfiniteScrollCacheOptions } from "./cache";
+import { ChatFollower, PureInfiniteScrollChatOptions } from "./chat";
+import { ContentTracker } from "./content";
+import { FeedAccessibility, PureInfiniteScrollAccessibilityOptions } from "./accessibility";
+import { HistorySync, PureInfiniteScrollHistoryAnchor, PureInfiniteScrollHistoryOptions, PureInfiniteScrollHistoryState } from "./history";
+import { IndicatorManager, PureInfiniteScrollIndicators, PureInfiniteScrollIndicatorState } from "./indicators";
+import { KeyRegistry, PureInfiniteScrollGetKey } from "./keys";
+import { PureInfiniteScrollLoadAroundResult, PureInfiniteScrollLoader, PureInfiniteScrollLoaderContext, PureInfiniteScrollLoadFunction, PureInfiniteScrollLoadResult, PureInfiniteScrollRender, toLoadResult, toNodes } from "./loader";
+import { PaginationController, PureInfiniteScrollPaginationOptions } from "./pagination";
+import { Prefetcher, PureInfiniteScrollPrefetchOptions } from "./prefetch";
+import { getRetryDelay, PureInfiniteScrollRetryOptions } from "./retry";
+import { PureInfiniteScrollScheduler } from "./scheduler";
+import { getVisibleElements, pinElement, PureInfiniteScrollAnchoringOptions, ScrollAnchor } from "./scroll-anchor";
+import { PureInfiniteScrollDetection, PureInfiniteScrollSentinels, SentinelObserver } from "./sentinels";
+import { VelocityTracker } from "./velocity";
+import { PureInfiniteScrollVirtualOptions, VirtualList } from "./virtual-list";
 
-export enum PureInfiniteScrollEvent {
-    ScrolledBottom = 'scrolledBottom',
-    ScrolledTop = 'scrolledTop',
+export { PureInfiniteScrollEvent };
+export type {
+    PureInfiniteScrollDirection,
+    PureInfiniteScrollAxis,
+    PureInfiniteScrollContainer,
+    PureInfiniteScrollDetection,
+    PureInfiniteScrollEventDetail,
+    PureInfiniteScrollEventMap,
+    PureInfiniteScrollEvictDetail,
+    PureInfiniteScrollFillDetail,
+    PureInfiniteScrollListener,
+    PureInfiniteScrollLoadDetail,
+    PureInfiniteScrollLoadEndDetail,
+    PureInfiniteScrollLoadStatus,
+    PureInfiniteScrollNewContentDetail,
+    PureInfiniteScrollScrollDetail,
+    PureInfiniteScrollErrorDetail,
+    PureInfiniteScrollTimeoutDetail,
+    PureInfiniteScrollUnreadDetail,
+};
+
+/**
+ * Additional options of the infinite scroll.
+ */
+export interface PureInfiniteScrollOptions<T = unknown> {
+    /**
+     * Loader functions called when the corresponding event is emitted.
+     * The loaded content is inserted by the infinite scroll itself.
+     */
+    loader?: PureInfiniteScrollLoader<T>;
+
+    /**
+     * Turns the loaded items into DOM nodes.
+     * Required when the loader resolves with items which are not DOM nodes.
+     */
+    render?: PureInfiniteScrollRender<T>;
+
+    /**
+     * Returns the key of an item, to drop the already rendered items from the loaded pages
+     * and to update or remove an item by its key with `updateItem`/`removeItem`.
+     */
+    getKey?: PureInfiniteScrollGetKey<T>;
+
+    /**
+     * Enables the virtual mode, keeping only the visible items in the content container.
+     * Requires the `render` function, the items are added with the loader or `appendItems`/`prependItems`.
+     */
+    virtual?: PureInfiniteScrollVirtualOptions;
+
+    /**
+     * The axis along which the container scrolls, vertical by default.
+     * The horizontal axis emits "scrolledEnd" and "scrolledStart" instead of "scrolledBottom" and "scrolledTop".
+     */
+    axis?: PureInfiniteScrollAxis;
+
+    /**
+     * How the user reaching an edge is detected, "scroll" by default.
+     * "intersection" observes sentinel elements with an IntersectionObserver
+     * and falls back to "scroll" when the IntersectionObserver is unavailable.
+     */
+    detection?: PureInfiniteScrollDetection;
+
+    /**
+     * Sentinel elements used by the "intersection" detection instead of the generated ones.
+     */
+    sentinels?: PureInfiniteScrollSentinels;
+
+    /**
+     * Tracks the displayed pages or cursors and finishes the directions with nothing more to load.
+     * Without it, the pages are still tracked but no direction is finished automatically.
+     */
+    pagination?: PureInfiniteScrollPaginationOptions;
+
+    /**
+     * Retries the failed loads automatically with exponential backoff.
+     */
+    retry?: PureInfiniteScrollRetryOptions;
+
+    /**
+     * How the events without loader are completed, "mutation" by default.
+     * - mutation: when the content changes are detected, or when the listener calls `done()`.
+     * - manual: only when the listener calls `done()` or the `waitUntil()` promise settles.
+     */
+    completion?: PureInfiniteScrollCompletion;
+
+    /**
+     * The time in milliseconds after which a pending event is cleared and "loadTimeout" is emitted.
+     */
+    timeout?: number;
+
+    /**
+     * Keeps the first visible item in place when content is inserted at the top (start),
+     * instead of compensating the scroll size difference, and keeps re-pinning it while late layout shifts settle.
+     * Ignored in virtual mode.
+     */
+    scrollAnchoring?: boolean | PureInfiniteScrollAnchoringOptions;
+
+    /**
+     * Keeps emitting events on construction and when the container is resized,
+     * until the content overflows the container by the threshold. "filled" is emitted once done.
+     */
+    autoFill?: boolean | PureInfiniteScrollAutoFillOptions;
+
+    /**
+     * Records the loaded pages and the first visible item in `history.state` as pages load,
+     * and restores them on construction by loading the pages again and scrolling back to the item.
+     */
+    history?: boolean | PureInfiniteScrollHistoryOptions;
+
+    /**
+     * Caches the pages loaded by the loader under the id of the list, and inserts the cached pages instead of loading them again.
+     */
+    cache?: PureInfiniteScrollCacheOptions;
+
+    /**
+     * Returns the id of a content element, `null` when it has none.
+     * Defaults to its `data-id` attribute.
+     */
+    getItemId?: (element: Element) => string | null;
+
+    /**
+     * The maximum number of content children. Beyond it, the pages at the opposite end of a load are removed,
+     * the opposite direction is re-armed to load them again and "evicted" is emitted. Ignored in virtual mode.
+     * The pages are known for the content inserted by the library or completed with `done(addedCount)`,
+     * the content of unknown page isn't evicted.
+     */
+    maxItems?: number;
+
+    /**
+     * Replaces the fixed threshold with a distance adapted to the scroll speed and the measured load latency,
+     * so content arrives before the edge is reached. Only with the "scroll" detection.
+     */
+    prefetch?: boolean | PureInfiniteScrollPrefetchOptions;
+
+    /**
+     * Templates of the loading, error and end indicators shown at the edges of the content container.
+     * The indicators are not content. Ignored in virtual mode.
+     */
+    indicators?: PureInfiniteScrollIndicators;
+
+    /**
+     * Applies the WAI-ARIA feed pattern to the content container, announces the loads through a polite live region
+     * and moves the focus between the items with Page Down and Page Up. Ignored in virtual mode.
+     */
+    accessibility?: boolean | PureInfiniteScrollAccessibilityOptions;
+
+    /**
+     * Evaluates the scroll position through a scheduler shared with other infinite scrolls,
+     * listening passively and batching the geometry reads of all of them in one animation frame.
+     * `true` uses the default shared scheduler. Ignored with the "intersection" detection.
+     */
+    scheduler?: boolean | PureInfiniteScrollScheduler;
+
+    /**
+     * Enables the chat mode: starts scrolled to the end and follows the content appended there while the user is at the end,
+     * otherwise keeps the view in place and emits "newContentBelow" and "unreadCount".
+     * Only the start direction is handled by default. Ignored in virtual mode.
+     */
+    chat?: boolean | PureInfiniteScrollChatOptions;
+
+    /**
+     * The selector of the items, the other children of the content container (wrappers, text) are not content.
+     * Every child except the sentinels and the indicators is an item by default.
+     */
+    itemSelector?: string;
+
+    /**
+     * Searches the items matching `itemSelector` and observes the content changes in the whole subtree
+     * of the content container, including the open shadow roots, instead of its children only.
+     */
+    observeSubtree?: boolean;
+}
+
+/**
+ * Options of the auto-fill.
+ */
+export interface PureInfiniteScrollAutoFillOptions {
+    /**
+     * The maximum number of events emitted to fill the container, 10 by default.
+     */
+    maxIterations?: number;
+}
+
+/**
+ * How the events without loader are completed.
+ */
+export type PureInfiniteScrollCompletion = 'mutation' | 'manual';
+
+/**
+ * The lifecycle state of the infinite scroll.
+ * - idle: waiting for the user to reach an edge.
+ * - loading: waiting for the content of at least one event.
+ * - paused: not emitting events until resumed.
+ * - destroyed: torn down, can't be used anymore.
+ */
+export type PureInfiniteScrollState = 'idle' | 'loading' | 'paused' | 'destroyed';
+
+/**
+ * The listener methods of the infinite scroll, typed with the detail of each event.
+ */
+export interface PureInfiniteScroll<T = unknown> {
+    on<E extends keyof PureInfiniteScrollEventMap>(event: E, listener: PureInfiniteScrollListener<E>): this;
+    once<E extends keyof PureInfiniteScrollEventMap>(event: E, listener: PureInfiniteScrollListener<E>): this;
+    addListener<E extends keyof PureInfiniteScrollEventMap>(event: E, listener: PureInfiniteScrollListener<E>): this;
+    prependListener<E extends keyof PureInfiniteScrollEventMap>(event: E, listener: PureInfiniteScrollListener<E>): this;
+    prependOnceListener<E extends keyof PureInfiniteScrollEventMap>(event: E, listener: PureInfiniteScrollListener<E>): this;
+    off<E extends keyof PureInfiniteScrollEventMap>(event: E, listener: PureInfiniteScrollListener<E>): this;
+    removeListener<E extends keyof PureInfiniteScrollEventMap>(event: E, listener: PureInfiniteScrollListener<E>): this;
+    emit<E extends keyof PureInfiniteScrollEventMap>(event: E, detail: PureInfiniteScrollEventMap[E]): boolean;
 }
 
 /**
  * Infinite scroll event emitter.
  * Emits events when the user reaches the bottom or top of the scrollable container.
  */
-export class PureInfiniteScroll extends EventEmitter {
+export class PureInfiniteScroll<T = unknown> extends EventEmitter {
     /**
-     * The container of the scrollable area.
+     * The container of the scrollable area, or the window for document-level scrolling.
      */
-    private container: HTMLElement;
+    private container: PureInfiniteScrollContainer;
 
     /**
      * The container of the content child's.
@@ -33,55 +257,378 @@ export class PureInfiniteScroll extends EventEmitter {
     /**
      * Object to keep track of the waiting events.
      */
-    private isWaitingEvents: { [key in PureInfiniteScrollEvent]: boolean } = {
-        [PureInfiniteScrollEvent.ScrolledBottom]: false,
-        [PureInfiniteScrollEvent.ScrolledTop]: false,
-    };
+    private isWaitingEvents: { [key in PureInfiniteScrollDirection]: boolean } = createDirectionMap<boolean>(false);
 
     /**
      * Object to keep track of the mutation observers.
      */
-    private observerEvents: { [key in PureInfiniteScrollEvent]: MutationObserver | null } = {
-        [PureInfiniteScrollEvent.ScrolledBottom]: null,
-        [PureInfiniteScrollEvent.ScrolledTop]: null,
-    };
+    private observerEvents: { [key in PureInfiniteScrollDirection]: MutationObserver | null } = createDirectionMap<MutationObserver | null>(null);
+
+    /**
+     * Object to keep track of the in-flight loads.
+     */
+    private loadingEvents: { [key in PureInfiniteScrollDirection]: Promise<void> | null } = createDirectionMap<Promise<void> | null>(null);
+
+    /**
+     * Object to keep track of the number of completed loads.
+     */
+    private loadCounts: { [key in PureInfiniteScrollDirection]: number } = createDirectionMap<number>(0);
+
+    /**
+     * Object to keep track of the emissions, incremented when an event is emitted or cleared.
+     * The completions of an emission are ignored once it changed.
+     */
+    private emissionIds: { [key in PureInfiniteScrollDirection]: number } = createDirectionMap<number>(0);
+
+    /**
+     * Object to keep track of the watchdog timeouts.
+     */
+    private watchdogTimeouts: { [key in PureInfiniteScrollDirection]: ReturnType<typeof setTimeout> | null } = createDirectionMap<ReturnType<typeof setTimeout> | null>(null);
+
+    /**
+     * How the events without loader are completed.
+     */
+    private completion: PureInfiniteScrollCompletion;
+
+    /**
+     * The watchdog timeout in milliseconds.
+     */
+    private timeout: number | null;
+
+    /**
+     * Object to keep track of the consecutive failed attempts.
+     */
+    private failedAttempts: { [key in PureInfiniteScrollDirection]: number } = createDirectionMap<number>(0);
+
+    /**
+     * Object to keep track of the scheduled retries.
+     */
+    private retryTimeouts: { [key in PureInfiniteScrollDirection]: ReturnType<typeof setTimeout> | null } = createDirectionMap<ReturnType<typeof setTimeout> | null>(null);
+
+    /**
+     * The options of the automatic retry.
+     */
+    private retryOptions: PureInfiniteScrollRetryOptions;
+
+    /**
+     * The loader functions.
+     */
+    private loader: PureInfiniteScrollLoader<T>;
+
+    /**
+     * The render function of the loaded items.
+     */
+    private render?: PureInfiniteScrollRender<T>;
+
+    /**
+     * The registry of the rendered keys, only with the `getKey` option.
+     */
+    private keyRegistry: KeyRegistry<T> | null = null;
+
+    /**
+     * The virtual list, only in virtual mode.
+     */
+    private virtualList: VirtualList<T> | null = null;
+
+    /**
+     * The axis along which the container scrolls.
+     */
+    private axis: PureInfiniteScrollAxis;
+
+    /**
+     * The pagination controller.
+     */
+    private pagination: PaginationController;
+
+    /**
+     * The sentinel observer, only with the "intersection" detection.
+     */
+    private sentinelObserver: SentinelObserver | null = null;
+
+    /**
+     * The scroll anchor, only with the scroll anchoring.
+     */
+    private scrollAnchor: ScrollAnchor | null = null;
+
+    /**
+     * The maximum number of events emitted to fill the container, `null` without auto-fill.
+     */
+    private maxFillIterations: number | null = null;
+
+    /**
+     * The number of events emitted by the ongoing filling, `null` when not filling.
+     */
+    private fillIterations: number | null = null;
+
+    /**
+     * The listener restarting the filling when the window is resized, kept to be removed on destroy.
+     */
+    private resizeListener: (() => void) | null = null;
+
+    /**
+     * The observer of the container size, only with the auto-fill.
+     */
+    private resizeObserver: ResizeObserver | null = null;
+
+    /**
+     * The history synchronization, only with the history option.
+     */
+    private historySync: HistorySync | null = null;
+
+    /**
+     * The page cache, only with the cache option.
+     */
+    private pageCache: PageCache<T> | null = null;
+
+    /**
+     * The state being restored from the history, `null` once restored.
+     */
+    private restoredState: PureInfiniteScrollHistoryState | null = null;
+
+    /**
+     * The listener recording the first visible item once the user stops scrolling, kept to be removed on destroy.
+     */
+    private historyListener: (() => void) | null = null;
+
+    /**
+     * The pending recording of the first visible item.
+     */
+    private historyTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Returns the id of a content element.
+     */
+    private getItemId: (element: Element) => string | null;
+
+    /**
+     * The maximum number of content children, `null` without cap.
+     */
+    private maxItems: number | null = null;
+
+    /**
+     * The page of the content nodes, used to remove whole pages beyond the cap.
+     */
+    private nodePages: WeakMap<Node, number> = new WeakMap();
+
+    /**
+     * The tracker of the scroll velocity.
+     */
+    private velocityTracker: VelocityTracker = new VelocityTracker();
+
+    /**
+     * The predictive prefetch, only with the prefetch option.
+     */
+    private prefetcher: Prefetcher | null = null;
+
+    /**
+     * The indicator manager, only with the indicators option.
+     */
+    private indicatorManager: IndicatorManager | null = null;
+
+    /**
+     * The feed accessibility, only with the accessibility option.
+     */
+    private feedAccessibility: FeedAccessibility | null = null;
+
+    /**
+     * The follower of the appended content, only in chat mode.
+     */
+    private chatFollower: ChatFollower | null = null;
 
     /**
-     * The previous scroll height of the container.
+     * The number of calls to `scrollToItem`, to ignore the loads of the superseded ones.
+     */
+    private jumpId: number = 0;
+
+    /**
+     * The tracker identifying the items and the content changes.
+     */
+    private contentTracker: ContentTracker;
+
+    /**
+     * Object to keep track of the emission times of the waiting events.
+     */
+    private loadStartTimes: { [key in PureInfiniteScrollDirection]: number } = createDirectionMap<number>(0);
+
+    /**
+     * The scroll listener, kept to be removed on destroy.
+     */
+    private scrollListener: (() => void) | null = null;
+
+    /**
+     * Stops the evaluation by the scheduler, only with the scheduler option.
+     */
+    private unregisterScheduler: (() => void) | null = null;
+
+    /**
+     * Whether the emission of events is paused.
+     */
+    private isPaused: boolean = false;
+
+    /**
+     * Whether the infinite scroll is destroyed.
+     */
+    private isDestroyed: boolean = false;
+
+    /**
+     * The previous scroll height (scroll width on the horizontal axis) of the container.
      */
     private previousScrollHeight: number = 0;
 
     /**
-     * The previous scroll top of the container.
+     * The previous scroll top (distance from the start on the horizontal axis) of the container.
      */
     private previousScrollTop: number = 0;
 
     /**
      * Constructor.
-     * @param container The container of the scrollable area.
+     * @param container The container of the scrollable area, or the window (or `document.scrollingElement`) for document-level scrolling.
+     * @param contentContainer The container of the content child's, required with the window.
      * @param threshold The threshold in pixels from the top or bottom of the scrollable area.
+     * @param handleEvents The events to be handled.
+     * @param options Additional options.
      */
-    constructor(container: HTMLElement, contentContainer?: HTMLElement, threshold?: number, handleEvents?: PureInfiniteScrollEvent[]) {
+    constructor(container: PureInfiniteScrollContainer, contentContainer?: HTMLElement, threshold?: number, handleEvents?: PureInfiniteScrollEvent[], options: PureInfiniteScrollOptions<T> = {}) {
         super();
 
-        this.container = container;
-        this.contentContainer = contentContainer ?? container;
+        this.container = resolveScrollContainer(container);
+
+        if (!contentContainer && this.container === window) {
+            throw new Error('PureInfiniteScroll: a content container is required when scrolling the window.');
+        }
+
+        this.contentContainer = contentContainer ?? container as HTMLElement;
         this.threshold = threshold ?? 0;
+        this.loader = options.loader ?? {};
+        this.render = options.render;
+        this.axis = options.axis ?? 'vertical';
+        this.pagination = new PaginationController(options.pagination);
+        this.retryOptions = options.retry ?? {};
+        this.completion = options.completion ?? 'mutation';
+        this.timeout = options.timeout ?? null;
+        this.getItemId = options.getItemId ?? ((element) => element.getAttribute('data-id'));
+        this.contentTracker = new ContentTracker(this.contentContainer, (node) => !!this.getAuxiliaryEdge(node), options.itemSelector, options.observeSubtree);
+
+        if (options.getKey) {
+            this.keyRegistry = new KeyRegistry(options.getKey, this.contentContainer);
+        }
+
+        if (options.cache) {
+            this.pageCache = new PageCache(options.cache);
+        }
+
+        if (options.prefetch) {
+            this.prefetcher = new Prefetcher(options.prefetch === true ? {} : options.prefetch);
+        }
+
+        if (options.virtual) {
+            if (!options.render) {
+                throw new Error('PureInfiniteScroll: the virtual mode requires a `render` function.');
+            }
+
+            if (this.axis === 'horizontal') {
+                throw new Error('PureInfiniteScroll: the virtual mode only supports the vertical axis.');
+            }
+
+            if (options.detection === 'intersection') {
+                throw new Error('PureInfiniteScroll: the virtual mode only supports the "scroll" detection.');
+            }
+
+            this.virtualList = new VirtualList(this.container, this.contentContainer, options.render, options.virtual);
+        } else {
+            if (this.keyRegistry) {
+                // The initial content is rendered
+                this.keyRegistry.register(this.contentElements, this.contentElements);
+            }
+
+            if (options.scrollAnchoring) {
+                const anchoringOptions = options.scrollAnchoring === true ? {} : options.scrollAnchoring;
+                this.scrollAnchor = new ScrollAnchor(this.container, this.contentContainer, this.axis, () => this.contentElements, anchoringOptions);
+            }
+
+            if (options.indicators) {
+                this.indicatorManager = new IndicatorManager(this.contentContainer, options.indicators, (edge) => {
+                    this.retry(edge === 'start' ? this.startEvent : this.endEvent);
+                });
+            }
+
+            if (options.accessibility) {
+                const accessibilityOptions = options.accessibility === true ? {} : options.accessibility;
+                this.feedAccessibility = new FeedAccessibility(this.contentContainer, () => this.contentElements as HTMLElement[], accessibilityOptions);
+                this.updateFeed();
+            }
+
+            if (options.maxItems !== undefined) {
+                this.maxItems = options.maxItems;
+
+                // The initial content is the initial page
+                this.setNodePage(this.contentElements, this.pagination.range.first);
+            }
+
+            if (options.chat) {
+                const chatOptions = options.chat === true ? {} : options.chat;
+                this.chatFollower = new ChatFollower(this.container, this.contentTracker, this.axis, chatOptions, {
+                    onNewContent: (count) => this.emit(PureInfiniteScrollEvent.NewContentBelow, { count, unreadCount: this.unreadCount }),
+                    onUnreadCount: (unreadCount) => this.emit(PureInfiniteScrollEvent.UnreadCount, { unreadCount }),
+                });
+            }
+        }
 
         // Set the handleEvents property to the provided handleEvents array if it's present,
-        // otherwise set it to an array containing both ScrolledBottom and ScrolledTop events.
+        // otherwise set it to an array containing both edge events of the scroll axis (only the start one in chat mode).
         // This array is used to keep track of which events the infinite scroll should handle.
         // The infinite scroll will only emit events that are present in this array.
-        this.handleEvents = handleEvents ?? [
-            PureInfiniteScrollEvent.ScrolledBottom,
-            PureInfiniteScrollEvent.ScrolledTop,
-        ];
+        this.handleEvents = handleEvents ?? (this.chatFollower ? [this.startEvent] : [
+            this.endEvent,
+            this.startEvent,
+        ]);
 
-        // Add an event listener to the container to detect when the user scrolls.
-        this.container.addEventListener('scroll', this.handleScroll.bind(this));
+        if (options.detection === 'intersection' && SentinelObserver.isSupported()) {
+            // Observe sentinel elements at both ends of the content instead of the scroll position.
+            this.sentinelObserver = new SentinelObserver(this.container, this.contentContainer, this.axis, this.threshold, this.handleIntersection.bind(this), options.sentinels);
+        } else if (options.scheduler) {
+            // Let the scheduler evaluate the scroll position along with the other infinite scrolls.
+            const scheduler = options.scheduler === true ? PureInfiniteScrollScheduler.shared : options.scheduler;
+
+            this.unregisterScheduler = scheduler.register(this.container, {
+                read: () => this.virtualList ? [] : this.measureScroll(),
+                // The virtual list renders its range before being measured
+                write: (events) => this.virtualList ? this.handleScroll() : events.forEach((event) => this.emitEvent(event)),
+            });
+        } else {
+            // Add an event listener to the container to detect when the user scrolls.
+            this.scrollListener = this.handleScroll.bind(this);
+            this.container.addEventListener('scroll', this.scrollListener);
+        }
 
         // Handle the scroll event to detect the initial state.
         // this.handleScroll();
+
+        if (options.history) {
+            this.historySync = new HistorySync(options.history === true ? {} : options.history);
+            this.restoredState = this.historySync.read();
+
+            // Record the first visible item once the user stops scrolling
+            this.historyListener = () => {
+                if (this.historyTimeout !== null) {
+                    clearTimeout(this.historyTimeout);
+                }
+
+                this.historyTimeout = setTimeout(() => this.recordHistory(), 100);
+            };
+            this.container.addEventListener('scroll', this.historyListener);
+
+            // Restore once the listeners are attached
+            Promise.resolve().then(() => this.continueRestoring());
+        }
+
+        if (options.autoFill) {
+            this.maxFillIterations = (options.autoFill === true ? undefined : options.autoFill.maxIterations) ?? 10;
+            this.observeContainerSize();
+
+            // Fill once the listeners are attached
+            Promise.resolve().then(() => this.fill());
+        }
     }
 
     /**
@@ -89,9 +636,9 @@ export class PureInfiniteScroll extends EventEmitter {
      * @returns boolean
      */
     get isScrolledBottom(): boolean {
-        const { scrollTop, scrollHeight, clientHeight } = this.container;
+        const { offset, scrollSize, clientSize } = getScrollMetrics(this.container, 'vertical');
 
-        return scrollHeight - scrollTop - clientHeight <= this.threshold;
+        return scrollSize - offset - clientSize <= this.getThreshold('end') || !!this.virtualList?.isNearEnd;
     }
 
     /**
@@ -99,36 +646,734 @@ export class PureInfiniteScroll extends EventEmitter {
      * @returns boolean
      */
     get isScrolledTop(): boolean {
-        return this.container.scrollTop <= this.threshold;
+        return getScrollMetrics(this.container, 'vertical').offset <= this.getThreshold('start') || !!this.virtualList?.isNearStart;
     }
 
     /**
-     * Handles the scroll event.
-     * This method is called whenever the user scrolls in the container.
-     * It checks if the user has scrolled to the bottom or top of the container,
+     * Checks if the user has scrolled to the end of the container along the scroll axis.
+     * @returns boolean
+     */
+    get isScrolledEnd(): boolean {
+        if (this.axis === 'vertical') {
+            return this.isScrolledBottom;
+        }
+
+        const { offset, scrollSize, clientSize } = getScrollMetrics(this.container, this.axis);
+
+        return scrollSize - offset - clientSize <= this.getThreshold('end');
+    }
+
+    /**
+     * Checks if the user has scrolled to the start of the container along the scroll axis.
+     * @returns boolean
+     */
+    get isScrolledStart(): boolean {
+        if (this.axis === 'vertical') {
+            return this.isScrolledTop;
+        }
+
+        return getScrollMetrics(this.container, this.axis).offset <= this.getThreshold('start');
+    }
+
+    /**
+     * Returns the distance from an edge at which the user reached it.
+     * With the prefetch, the distance covered at the current speed during the load latency.
+     * @param edge The edge.
+     * @returns number
+     */
+    private getThreshold(edge: PureInfiniteScrollEdge): number {
+        if (!this.prefetcher) {
+            return this.threshold;
+        }
+
+        const velocity = this.velocityTracker.getVelocity();
+
+        return this.prefetcher.getLookahead(edge === 'end' ? velocity : -velocity, this.threshold);
+    }
+
+    /**
+     * The event emitted at the end of the scroll axis.
+     */
+    private get endEvent(): PureInfiniteScrollDirection {
+        return this.axis === 'vertical' ? PureInfiniteScrollEvent.ScrolledBottom : PureInfiniteScrollEvent.ScrolledEnd;
+    }
+
+    /**
+     * The event emitted at the start of the scroll axis.
+     */
+    private get startEvent(): PureInfiniteScrollDirection {
+        return this.axis === 'vertical' ? PureInfiniteScrollEvent.ScrolledTop : PureInfiniteScrollEvent.ScrolledStart;
+    }
+
+    /**
+     * The lifecycle state of the infinite scroll.
+     */
+    get state(): PureInfiniteScrollState {
+        if (this.isDestroyed) {
+            return 'destroyed';
+        }
+
+        if (this.isPaused) {
+            return 'paused';
+        }
+
+        return Object.keys(this.isWaitingEvents).some((event) => this.isWaitingEvents[event as PureInfiniteScrollDirection])
+            ? 'loading'
+            : 'idle';
+    }
+
+    /**
+     * Suspends the emission of events without tearing down the infinite scroll.
+     * The pending events still complete.
+     */
+    public pause() {
+        if (this.isDestroyed) {
+            return;
+        }
+
+        this.isPaused = true;
+    }
+
+    /**
+     * Resumes the emission of events and re-evaluates the current position.
+     */
+    public resume() {
+        if (this.isDestroyed || !this.isPaused) {
+            return;
+        }
+
+        this.isPaused = false;
+        this.evaluate();
+        this.fill();
+    }
+
+    /**
+     * Clears the pending events and re-evaluates the current position.
+     * The content of the loads started before the reset is ignored.
+     */
+    public reset() {
+        if (this.isDestroyed) {
+            return;
+        }
+
+        Object.keys(this.isWaitingEvents).forEach((event) => {
+            this.cancelRetry(event as PureInfiniteScrollDirection);
+            this.failedAttempts[event as PureInfiniteScrollDirection] = 0;
+            this.clearEvent(event as PureInfiniteScrollDirection);
+        });
+
+        this.evaluate();
+    }
+
+    /**
+     * Removes the listeners, disconnects the observers and removes all the event listeners.
+     * The infinite scroll can't be used anymore.
+     */
+    public destroy() {
+        if (this.isDestroyed) {
+            return;
+        }
+
+        this.isDestroyed = true;
+
+        if (this.scrollListener) {
+            this.container.removeEventListener('scroll', this.scrollListener);
+            this.scrollListener = null;
+        }
+
+        if (this.unregisterScheduler) {
+            this.unregisterScheduler();
+            this.unregisterScheduler = null;
+        }
+
+        Object.keys(this.observerEvents).forEach((event) => {
+            this.cancelRetry(event as PureInfiniteScrollDirection);
+            this.clearEvent(event as PureInfiniteScrollDirection);
+        });
+
+        this.sentinelObserver?.disconnect();
+        this.virtualList?.disconnect();
+        this.scrollAnchor?.disconnect();
+        this.indicatorManager?.disconnect();
+        this.feedAccessibility?.disconnect();
+        this.chatFollower?.disconnect();
+        this.resizeObserver?.disconnect();
+
+        if (this.resizeListener) {
+            window.removeEventListener('resize', this.resizeListener);
+            this.resizeListener = null;
+        }
+
+        if (this.historyListener) {
+            this.container.removeEventListener('scroll', this.historyListener);
+            this.historyListener = null;
+        }
+
+        if (this.historyTimeout !== null) {
+            clearTimeout(this.historyTimeout);
+            this.historyTimeout = null;
+        }
+
+        this.removeAllListeners();
+    }
+
+    /**
+     * The range of displayed pages.
+     */
+    get pages(): { first: number, last: number } {
+        return this.pagination.range;
+    }
+
+    /**
+     * The number of items appended at the end since the user left it, in chat mode.
+     */
+    get unreadCount(): number {
+        return this.chatFollower?.unreadCount ?? 0;
+    }
+
+    /**
+     * Scrolls an item into view, loading the page containing it with the `loadAround` loader when it isn't displayed.
+     * The page replaces the displayed ones unless it is next to them, then both directions fill in around it.
+     * @param id The id of the item, as returned by `getItemId`.
+     * @param offset The distance in pixels between the start of the visible area and the item.
+     * @returns Promise<Element> Resolves with the item once visible, rejects when it can't be found.
+     */
+    public scrollToItem(id: string, offset: number = 0): Promise<Element> {
+        const jumpId = ++this.jumpId;
+
+        if (this.virtualList) {
+            return Promise.reject(new Error('PureInfiniteScroll: `scrollToItem` is not supported in virtual mode.'));
+        }
+
+        const displayedElement = this.findItem(id);
+
+        if (displayedElement) {
+            this.showItem(displayedElement, offset);
+            return Promise.resolve(displayedElement);
+        }
+
+        const loadAround = this.loader.loadAround;
+
+        if (!loadAround) {
+            return Promise.reject(new Error(`PureInfiniteScroll: the item "${id}" is not displayed and no \`loadAround\` loader is provided.`));
+        }
+
+        // A synchronous throw of the loader rejects the returned promise as well
+        const loading = new Promise<PureInfiniteScrollLoadAroundResult<T> | null>((resolve) => resolve(loadAround({ id, contentContainer: this.contentContainer })));
+
+        return loading.then((result) => {
+            if (jumpId !== this.jumpId || this.isDestroyed) {
+                throw new Error(`PureInfiniteScroll: the scroll to the item "${id}" was superseded.`);
+            }
+
+            if (result) {
+                this.insertPageAround(result);
+            }
+
+            const element = this.findItem(id);
+
+            if (!element) {
+                throw new Error(`PureInfiniteScroll: the item "${id}" could not be found.`);
+            }
+
+            this.showItem(element, offset);
+
+            // Let both directions fill in around the item
+            this.evaluate();
+
+            return element;
+        });
+    }
+
+    /**
+     * Scrolls to the end of the content, resetting the unread count in chat mode.
+     */
+    public scrollToLatest() {
+        if (this.chatFollower) {
+            this.chatFollower.scrollToEnd();
+        } else {
+            setScrollOffset(this.container, this.axis, getScrollMetrics(this.container, this.axis).scrollSize);
+        }
+    }
+
+    /**
+     * Sets the cursor of the page to be loaded in a direction.
+     * Without loader, set it before inserting the content: `null` finishes the direction once the content is inserted.
+     * @param event The direction.
+     * @param cursor The cursor of the page to be loaded.
+     */
+    public setCursor(event: PureInfiniteScrollDirection, cursor: string | null) {
+        this.pagination.setCursor(getEdge(event), cursor);
+    }
+
+    /**
+     * Checks if a direction is finished.
+     * @param event The direction.
+     * @returns boolean
+     */
+    public isFinished(event: PureInfiniteScrollDirection): boolean {
+        return this.pagination.isFinished(getEdge(event));
+    }
+
+    /**
+     * Marks a direction as finished, stopping its emissions and emitting "reachedEnd"/"reachedStart".
+     * @param event The direction.
+     */
+    public finish(event: PureInfiniteScrollDirection) {
+        if (this.pagination.finish(getEdge(event))) {
+            this.emitReached(event);
+            this.updateFeed();
+            this.feedAccessibility?.announce(0, !isStartEvent(event));
+        }
+    }
+
+    /**
+     * Re-arms a finished direction when new data becomes available, and re-evaluates the current position.
+     * @param event The direction.
+     * @param cursor The cursor of the page to be loaded, for cursor-based APIs.
+     */
+    public rearm(event: PureInfiniteScrollDirection, cursor?: string | null) {
+        this.pagination.rearm(getEdge(event), cursor);
+        this.clearEndIndicator(getEdge(event));
+        this.updateFeed();
+
+        if (!this.isDestroyed) {
+            this.evaluate();
+        }
+    }
+
+    /**
+     * Reports that the content of an event failed to load.
+     * Emits "loadError" and schedules the automatic retry if any retries are left.
+     * @param event The direction which failed to load.
+     * @param error The error.
+     */
+    public reportError(event: PureInfiniteScrollDirection, error: unknown) {
+        if (this.isDestroyed) {
+            return;
+        }
+
+        this.clearEvent(event, 'failed');
+        this.cancelRetry(event);
+        this.stopRestoring();
+        this.setIndicator(getEdge(event), 'error', error);
+
+        const attempt = ++this.failedAttempts[event];
+        const retryDelay = attempt <= (this.retryOptions.retries ?? 0)
+            ? getRetryDelay(attempt, this.retryOptions)
+            : null;
+
+        if (retryDelay !== null) {
+            this.retryTimeouts[event] = setTimeout(() => {
+                this.retryTimeouts[event] = null;
+                this.emitEvent(event);
+            }, retryDelay);
+        }
+
+        const detail: PureInfiniteScrollErrorDetail = { direction: event, error, attempt, retryDelay };
+        this.emit(PureInfiniteScrollEvent.LoadError, detail);
+    }
+
+    /**
+     * Retries a failed direction right away, e.g. from a "Try again" button.
+     * @param event The direction to be retried.
+     */
+    public retry(event: PureInfiniteScrollDirection) {
+        this.cancelRetry(event);
+        this.emitEvent(event);
+    }
+
+    /**
+     * Checks if content is being loaded for an event.
+     * @param event The event to be checked.
+     * @returns boolean
+     */
+    public isLoading(event: PureInfiniteScrollDirection): boolean {
+        return this.loadingEvents[event] !== null;
+    }
+
+    /**
+     * Appends items at the end and completes the "scrolledBottom" ("scrolledEnd") event.
+     * In virtual mode the items are added to the virtual list, otherwise they are rendered and inserted.
+     * @param items The items to be appended.
+     */
+    public appendItems(items: Array<T | Node>) {
+        this.insertItems(this.endEvent, items);
+        this.completeEvent(this.endEvent);
+    }
+
+    /**
+     * Prepends items at the start and completes the "scrolledTop" ("scrolledStart") event.
+     * In virtual mode the items are added to the virtual list, otherwise they are rendered and inserted.
+     * @param items The items to be prepended.
+     */
+    public prependItems(items: Array<T | Node>) {
+        this.insertItems(this.startEvent, items);
+        this.completeEvent(this.startEvent);
+    }
+
+    /**
+     * Re-renders a displayed item in place, keeping the visible content in place.
+     * Requires the `getKey` option, not supported in virtual mode.
+     * @param key The key of the item.
+     * @param data The new data of the item, or its new node.
+     * @returns boolean Whether the item was displayed and updated.
+     */
+    public updateItem(key: string, data: T | Node): boolean {
+        const node = this.getKeyedNode('updateItem', key);
+
+        if (!node) {
+            return false;
+        }
+
+        const newNode = toNodes([data], this.render)[0];
+
+        this.keepVisibleContent(() => node.parentNode?.replaceChild(newNode, node), (element) => element === node ? newNode : null);
+        this.keyRegistry!.set(key, newNode);
+
+        const page = this.nodePages.get(node);
+        if (page !== undefined) {
+            this.nodePages.set(newNode, page);
+        }
+
+        this.updateFeed();
+
+        return true;
+    }
+
+    /**
+     * Removes a displayed item, keeping the visible content in place.
+     * Requires the `getKey` option, not supported in virtual mode.
+     * @param key The key of the item.
+     * @returns boolean Whether the item was displayed and removed.
+     */
+    public removeItem(key: string): boolean {
+        const node = this.getKeyedNode('removeItem', key);
+
+        if (!node) {
+            return false;
+        }
+
+        this.feedAccessibility?.releaseFocus([node]);
+        this.keepVisibleContent(() => node.parentNode?.removeChild(node));
+        this.keyRegistry!.delete(key);
+        this.updateFeed();
+
+        return true;
+    }
+
+    /**
+     * Handles the scroll event.
+     * This method is called whenever the user scrolls in the container.
+     * It checks if the user has scrolled to the bottom or top of the container,
      * and if so, emits the corresponding event.
      */
     private handleScroll() {
+        // Render the items of the visible area in virtual mode
+        this.virtualList?.update();
+
+        // Emit the events
+        this.measureScroll().forEach((event) => {
+            // Emit the event
+            this.emitEvent(event);
+        });
+    }
+
+    /**
+     * Records the scroll position and returns the events of the edges reached, without modifying the DOM.
+     * @returns PureInfiniteScrollDirection[] The events that need to be emitted.
+     */
+    private measureScroll(): PureInfiniteScrollDirection[] {
+        this.velocityTracker.record(getScrollMetrics(this.container, this.axis).offset);
+
         // Get the events that need to be emitted
-        const events: PureInfiniteScrollEvent[] = [];
+        const events: PureInfiniteScrollDirection[] = [];
 
-        // Check if the user has scrolled to the bottom of the container
-        if (this.isScrolledBottom) {
+        // Check if the user has scrolled to the bottom (end) of the container
+        if (this.isScrolledEnd) {
             // Add the event to the list of events that need to be emitted
-            events.push(PureInfiniteScrollEvent.ScrolledBottom);
+            events.push(this.endEvent);
         }
 
-        // Check if the user has scrolled to the top of the container
-        if (this.isScrolledTop) {
+        // Check if the user has scrolled to the top (start) of the container
+        if (this.isScrolledStart) {
             // Add the event to the list of events that need to be emitted
-            events.push(PureInfiniteScrollEvent.ScrolledTop);
+            events.push(this.startEvent);
+        }
+
+        return events;
+    }
+
+    /**
+     * Re-evaluates the current position, emitting the events of the edges already reached.
+     */
+    private evaluate() {
+        if (this.sentinelObserver) {
+            this.sentinelObserver.refresh();
+        } else {
+            this.handleScroll();
+        }
+    }
+
+    /**
+     * Restarts the filling when the container is resized.
+     */
+    private observeContainerSize() {
+        const listener = () => this.fill();
+
+        if (this.container === window) {
+            this.resizeListener = listener;
+            window.addEventListener('resize', listener);
+        } else if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(listener);
+            this.resizeObserver.observe(this.container as HTMLElement);
+        }
+    }
+
+    /**
+     * Starts filling the container, with the auto-fill.
+     */
+    private fill() {
+        if (this.maxFillIterations === null) {
+            return;
+        }
+
+        this.fillIterations = 0;
+        this.continueFilling();
+    }
+
+    /**
+     * Emits the next event of the filling, or ends it with "filled".
+     */
+    private continueFilling() {
+        if (this.fillIterations === null || this.isDestroyed) {
+            return;
+        }
+
+        // Resuming starts filling again
+        if (this.isPaused) {
+            this.fillIterations = null;
+            return;
+        }
+
+        const { scrollSize, clientSize } = getScrollMetrics(this.container, this.axis);
+        const overflowing = scrollSize - clientSize > this.threshold;
+        const event = [this.endEvent, this.startEvent]
+            .filter((event) => this.handleEvents.includes(event) && !this.pagination.isFinished(getEdge(event)))[0];
+
+        if (overflowing || !event || this.fillIterations >= this.maxFillIterations!) {
+            const detail: PureInfiniteScrollFillDetail = { iterations: this.fillIterations, overflowing };
+            this.fillIterations = null;
+            this.emit(PureInfiniteScrollEvent.Filled, detail);
+            return;
+        }
+
+        // The completion of the pending event continues the filling
+        if (this.isWaitingEvents[event]) {
+            return;
+        }
+
+        this.fillIterations++;
+        this.emitEvent(event);
+    }
+
+    /**
+     * Emits the next event loading the pages of the restored state, or scrolls back to its anchor once they are loaded.
+     */
+    private continueRestoring() {
+        const state = this.restoredState;
+
+        if (!state || this.isDestroyed) {
+            return;
+        }
+
+        const { first, last } = this.pagination.range;
+        const event = [
+            last < state.last ? this.endEvent : null,
+            first > (state.first ?? first) ? this.startEvent : null,
+        ].filter((event): event is PureInfiniteScrollDirection => !!event && this.handleEvents.includes(event) && !this.pagination.isFinished(getEdge(event)))[0];
+
+        if (event) {
+            // The completion of the pending event continues the restoration
+            if (!this.isWaitingEvents[event]) {
+                this.emitEvent(event);
+            }
+
+            return;
+        }
+
+        this.restoredState = null;
+
+        if (state.anchor) {
+            this.restoreAnchor(state.anchor);
+        }
+    }
+
+    /**
+     * Gives up the restoration after a failed load, so the history records the position again.
+     * Scrolls back to the recorded item if it is displayed.
+     */
+    private stopRestoring() {
+        const state = this.restoredState;
+
+        if (!state) {
+            return;
+        }
+
+        this.restoredState = null;
+
+        if (state.anchor) {
+            this.restoreAnchor(state.anchor);
+        }
+    }
+
+    /**
+     * Scrolls back to the item recorded in the history.
+     * @param anchor The recorded item.
+     */
+    private restoreAnchor(anchor: PureInfiniteScrollHistoryAnchor) {
+        const element = this.findItem(anchor.id);
+
+        if (element) {
+            pinElement(this.container, this.axis, element, anchor.offset);
+        }
+    }
+
+    /**
+     * Returns the displayed item with an id.
+     * @param id The id of the item.
+     * @returns Element | null `null` when the item isn't displayed.
+     */
+    private findItem(id: string): Element | null {
+        return this.contentElements.filter((element) => this.getItemId(element) === id)[0] ?? null;
+    }
+
+    /**
+     * Scrolls an item into view, and keeps it in place while the content settles with the scroll anchoring.
+     * @param element The item.
+     * @param offset The distance in pixels between the start of the visible area and the item.
+     */
+    private showItem(element: Element, offset: number) {
+        pinElement(this.container, this.axis, element, offset);
+
+        this.scrollAnchor?.capture();
+        this.scrollAnchor?.pin();
+    }
+
+    /**
+     * Returns the displayed node of a key, for the methods patching the items by key.
+     * @param method The name of the calling method, for the errors.
+     * @param key The key of the item.
+     * @returns Node | null `null` when no displayed item has the key.
+     */
+    private getKeyedNode(method: string, key: string): Node | null {
+        if (this.virtualList) {
+            throw new Error(`PureInfiniteScroll: \`${method}\` is not supported in virtual mode.`);
+        }
+
+        if (!this.keyRegistry) {
+            throw new Error(`PureInfiniteScroll: a \`getKey\` function is required to use \`${method}\`.`);
+        }
+
+        return this.keyRegistry.get(key);
+    }
+
+    /**
+     * Keeps the first visible item in place while items are replaced or removed.
+     * A removed item can't stay in place, its replacement or the next visible item does.
+     * @param change Replaces or removes the items.
+     * @param getReplacement Returns the node replacing a removed item, `null` when none.
+     */
+    private keepVisibleContent(change: () => void, getReplacement: (element: Element) => Node | null = () => null) {
+        const candidates = getVisibleElements(this.container, this.axis, this.contentElements);
+
+        change();
+
+        const items = this.contentElements;
+
+        for (let i = 0; i < candidates.length; i++) {
+            const { element, offset } = candidates[i];
+            const anchor = items.indexOf(element) !== -1 ? element : getReplacement(element);
+
+            if (anchor instanceof Element && anchor.isConnected) {
+                pinElement(this.container, this.axis, anchor, offset);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Inserts the page loaded around an item next to the displayed pages, or in place of them.
+     * @param result The page loaded around the item.
+     */
+    private insertPageAround(result: PureInfiniteScrollLoadAroundResult<T>) {
+        const { first, last } = this.pagination.range;
+        const hasContent = this.contentElements.length > 0;
+
+        // A page next to the displayed ones completes their direction
+        if (hasContent && (result.page === last + 1 || result.page === first - 1)) {
+            const event = result.page === last + 1 ? this.endEvent : this.startEvent;
+
+            this.cancelRetry(event);
+            this.clearEvent(event);
+            this.insertContent(event, this.renderItems(result.items));
+            this.completeEvent(event, isStartEvent(event) ? result.previousCursor : result.nextCursor);
+
+            return;
+        }
+
+        // Otherwise replace the displayed pages, there is a gap between them
+        Object.keys(this.observerEvents).forEach((event) => {
+            this.cancelRetry(event as PureInfiniteScrollDirection);
+            this.clearEvent(event as PureInfiniteScrollDirection);
+        });
+
+        const contentElements = this.contentElements;
+        this.feedAccessibility?.releaseFocus(contentElements);
+        contentElements.forEach((element) => element.parentNode?.removeChild(element));
+
+        this.setIndicator('start', null);
+        this.setIndicator('end', null);
+        this.restoredState = null;
+        this.pagination.reset(result.page, result.previousCursor, result.nextCursor);
+
+        // Render once the displayed pages are removed, their keys are no longer rendered
+        const nodes = this.renderItems(result.items);
+        this.setNodePage(nodes, result.page);
+        const fragment = document.createDocumentFragment();
+        nodes.forEach((node) => fragment.appendChild(node));
+        this.contentContainer.insertBefore(fragment, this.getInsertionReference('end'));
+
+        this.updateFeed();
+    }
+
+    /**
+     * Records the loaded pages and the first visible item with an id in the history.
+     */
+    private recordHistory() {
+        this.historyTimeout = null;
+
+        // Keep the recorded state until it is restored
+        if (!this.historySync || this.restoredState || this.isDestroyed) {
+            return;
         }
 
-        // Emit the events
-        events.forEach((event) => {
-            // Emit the event
-            this.emitEvent(event);
-        });
+        const anchor = getVisibleElements(this.container, this.axis, this.contentElements)
+            .map(({ element, offset }) => ({ id: this.getItemId(element), offset }))
+            .filter((anchor): anchor is PureInfiniteScrollHistoryAnchor => anchor.id !== null)[0];
+
+        this.historySync.write({ ...this.pagination.range, anchor: anchor ?? null });
+    }
+
+    /**
+     * Handles a sentinel coming within the threshold of the visible area.
+     * @param edge The edge of the sentinel.
+     */
+    private handleIntersection(edge: PureInfiniteScrollEdge) {
+        // Without scroll events, the velocity is estimated from the intersection reports
+        this.velocityTracker.record(getScrollMetrics(this.container, this.axis).offset);
+
+        this.emitEvent(edge === 'start' ? this.startEvent : this.endEvent);
     }
 
     /**
@@ -138,13 +1383,21 @@ export class PureInfiniteScroll extends EventEmitter {
      * This method does the following:
      * 1. Sets the flag indicating that an event is being processed.
      * 2. Saves the current scroll position from the top of the element.
-     * 3. Creates a new MutationObserver to monitor changes in the DOM.
-     * 4. Waits for content changes to be finished before emitting the event.
-     * 5. Emits the event.
+     * 3. Loads the content with the loader function of the event if present,
+     *    otherwise creates a new MutationObserver to monitor changes in the DOM.
+     *    In virtual mode without loader, the event waits for `appendItems`/`prependItems`.
+     * 4. Emits the event.
      */
-    private emitEvent(event: PureInfiniteScrollEvent) {
-        if (// Check if the event is not being processed
+    private emitEvent(event: PureInfiniteScrollDirection) {
+        if (// Check if the infinite scroll is emitting events
+            this.isPaused ||
+            this.isDestroyed ||
+            // Check if the event is not being processed
             this.isWaitingEvents[event] ||
+            // Check if the event is not waiting for its automatic retry
+            this.retryTimeouts[event] !== null ||
+            // Check if there is more to load in this direction
+            this.pagination.isFinished(getEdge(event)) ||
             // Check if the event is one of the events that need to be handled
             !this.handleEvents.includes(event)
         ) {
@@ -153,68 +1406,685 @@ export class PureInfiniteScroll extends EventEmitter {
 
         // Set the flag indicating that an event is being processed
         this.isWaitingEvents[event] = true;
+        const emissionId = ++this.emissionIds[event];
+        this.feedAccessibility?.setBusy(true);
+
+        // Clear the event if it's still pending after the watchdog timeout
+        if (this.timeout !== null) {
+            this.watchdogTimeouts[event] = setTimeout(() => this.handleTimeout(event), this.timeout);
+        }
+
+        this.setIndicator(getEdge(event), 'loading');
 
         // Save the current scroll position from the top of the element
         // This is necessary to detect when the content has finished loading
         // and the user has scrolled to the end of the content.
-        this.previousScrollHeight = this.container.scrollHeight;
-        this.previousScrollTop = this.container.scrollTop;
+        this.saveScrollPosition();
+
+        const loadDetail = this.createLoadDetail(event);
+        this.loadStartTimes[event] = loadDetail.timestamp;
+        this.emit(PureInfiniteScrollEvent.LoadStart, loadDetail);
 
-        // Start detecting content changes
-        // This will wait for the content to finish loading and then emit the event.
-        this.waitForContentChanges(event);
+        const loadFunction = this.getLoadFunction(event);
+
+        if (loadFunction) {
+            // Load and insert the content ourselves
+            this.load(event, loadFunction);
+        } else if (!this.virtualList && this.completion === 'mutation') {
+            // Start detecting content changes
+            // This will wait for the content to finish loading and then emit the event.
+            this.waitForContentChanges(event);
+        }
 
         // Emit the event
-        this.emit(event);
+        this.emit(event, this.createDetail(loadDetail, emissionId));
+    }
+
+    /**
+     * Creates the detail describing the position when an event is emitted.
+     * @param event The event.
+     * @returns PureInfiniteScrollLoadDetail
+     */
+    private createLoadDetail(event: PureInfiniteScrollDirection): PureInfiniteScrollLoadDetail {
+        const { offset, scrollSize, clientSize } = getScrollMetrics(this.container, this.axis);
+        const timestamp = Date.now();
+
+        return {
+            direction: event,
+            ...this.pagination.getPage(getEdge(event)),
+            scrollTop: offset,
+            scrollHeight: scrollSize,
+            distanceToEdge: isStartEvent(event) ? offset : scrollSize - offset - clientSize,
+            velocity: this.velocityTracker.getVelocity(timestamp),
+            loadCount: this.loadCounts[event],
+            timestamp,
+        };
+    }
+
+    /**
+     * Creates the detail passed to the listeners of an event, along with its completion handle.
+     * @param loadDetail The detail describing the position when the event is emitted.
+     * @param emissionId The emission completed by the handle.
+     * @returns PureInfiniteScrollScrollDetail
+     */
+    private createDetail(loadDetail: PureInfiniteScrollLoadDetail, emissionId: number): PureInfiniteScrollScrollDetail {
+        const event = loadDetail.direction;
+        const done = (addedCount?: number) => {
+            if (!this.isCurrentEmission(event, emissionId)) {
+                return;
+            }
+
+            // The added nodes are the ones at the edge of the event
+            if (addedCount) {
+                const contentElements = this.contentElements;
+                const addedElements = isStartEvent(event) ? contentElements.slice(0, addedCount) : contentElements.slice(-addedCount);
+                this.setNodePage(addedElements, this.pagination.getPage(getEdge(event)).page);
+            }
+
+            this.completeEvent(event);
+
+            // Keep the position when content was inserted at the top (start)
+            if (isStartEvent(event) && addedCount !== 0) {
+                this.handleContentChanges();
+            }
+        };
+
+        return {
+            ...loadDetail,
+            done,
+            waitUntil: (promise) => {
+                promise.then((addedCount) => done(addedCount ?? undefined), (error) => {
+                    if (this.isCurrentEmission(event, emissionId)) {
+                        this.reportError(event, error);
+                    }
+                });
+            },
+        };
+    }
+
+    /**
+     * Checks if an emission is still pending.
+     * @param event The event.
+     * @param emissionId The emission.
+     * @returns boolean
+     */
+    private isCurrentEmission(event: PureInfiniteScrollDirection, emissionId: number): boolean {
+        return this.isWaitingEvents[event] && this.emissionIds[event] === emissionId;
+    }
+
+    /**
+     * Handles the watchdog timeout of a pending event.
+     * @param event The event.
+     */
+    private handleTimeout(event: PureInfiniteScrollDirection) {
+        this.watchdogTimeouts[event] = null;
+        this.clearEvent(event, 'timedOut');
+        this.stopRestoring();
+
+        const detail: PureInfiniteScrollTimeoutDetail = { direction: event, timeout: this.timeout ?? 0 };
+        this.emit(PureInfiniteScrollEvent.LoadTimeout, detail);
+    }
+
+    /**
+     * Emits "reachedEnd" or "reachedStart" for a finished direction.
+     * @param event The finished direction.
+     */
+    private emitReached(event: PureInfiniteScrollDirection) {
+        const { first, last } = this.pagination.range;
+
+        this.setIndicator(getEdge(event), 'end');
+
+        this.emit(isStartEvent(event) ? PureInfiniteScrollEvent.ReachedStart : PureInfiniteScrollEvent.ReachedEnd, {
+            direction: event,
+            page: isStartEvent(event) ? first : last,
+            cursor: null,
+        });
     }
 
     /**
      * Waits for content changes.
      * @param event The event to be handled.
      */
-    private waitForContentChanges(event: PureInfiniteScrollEvent) {
-        // Create a new MutationObserver to monitor changes in the DOM
-        this.observerEvents[event] = new MutationObserver((mutations) => {
-            // Take the first mutation record from the list
-            const mutation = mutations[0];
-
-            // Check if the first added node matches the first child of the content container
-            const mutationStart = this.contentContainer.firstChild?.isEqualNode(mutation.addedNodes[0]);
-            // Check if the last added node matches the last child of the content container
-            const mutationEnd = this.contentContainer.lastChild?.isEqualNode(mutation.addedNodes[mutation.addedNodes.length - 1]);
-
-            // If the mutation relates to the top of the container and event is ScrolledTop,
-            // or the mutation relates to the bottom and event is ScrolledBottom, proceed
-            if ((mutationStart && event === PureInfiniteScrollEvent.ScrolledTop) || (mutationEnd && event === PureInfiniteScrollEvent.ScrolledBottom)) {
-                // Stop observing further changes for this event
-                this.observerEvents[event]?.disconnect();
-                this.observerEvents[event] = null;
-
-                // Mark the event as not waiting anymore
-                this.isWaitingEvents[event] = false;
-
-                // Handle the changes in content to adjust the scroll position
-                // Save scroll position only on scroll top
-                if (event === PureInfiniteScrollEvent.ScrolledTop) {
-                    this.handleContentChanges();
-                }
+    private waitForContentChanges(event: PureInfiniteScrollDirection) {
+        // Observe the items added to the content container, the sentinels and the indicators are not content
+        this.observerEvents[event] = this.contentTracker.observe((changes) => {
+            // Only the items added at the edge of the event complete it
+            const addedItems = isStartEvent(event) ? changes.start : changes.end;
+
+            if (addedItems.length === 0) {
+                return;
+            }
+
+            this.setNodePage(addedItems, this.pagination.getPage(getEdge(event)).page);
+            this.completeEvent(event);
+
+            // Handle the changes in content to adjust the scroll position
+            // Save scroll position only on scroll top (start)
+            if (isStartEvent(event)) {
+                this.handleContentChanges();
+            }
+        });
+    }
+
+    /**
+     * Returns the loader function of an event.
+     * @param event The event to be handled.
+     * @returns PureInfiniteScrollLoadFunction | undefined
+     */
+    private getLoadFunction(event: PureInfiniteScrollDirection): PureInfiniteScrollLoadFunction<T> | undefined {
+        return isStartEvent(event)
+            ? this.loader.loadPrevious
+            : this.loader.loadNext;
+    }
+
+    /**
+     * Loads the content of an event and inserts it into the content container.
+     * @param event The event to be handled.
+     * @param loadFunction The loader function of the event.
+     *
+     * A rejected load is reported with `reportError`.
+     */
+    private load(event: PureInfiniteScrollDirection, loadFunction: PureInfiniteScrollLoadFunction<T>) {
+        const emissionId = this.emissionIds[event];
+        const context: PureInfiniteScrollLoaderContext = {
+            event,
+            contentContainer: this.contentContainer,
+            loadCount: this.loadCounts[event],
+            ...this.pagination.getPage(getEdge(event)),
+        };
+
+        // Insert a cached page without loading it, still asynchronously like a load
+        const cachedPage = this.pageCache?.get(getEdge(event), context.page, context.cursor) ?? null;
+        const loading = cachedPage
+            ? Promise.resolve(cachedPage.result)
+            : this.callLoader(loadFunction, context).then((result) => this.cachePage(context, result));
+
+        this.loadingEvents[event] = loading.then((result) => {
+            // Ignore the loads cleared meanwhile, by a reset, a timeout or destroy
+            if (!this.isCurrentEmission(event, emissionId)) {
+                return;
+            }
+
+            const { items, cursor, hasMore } = result;
+
+            const nodes = this.insertItems(event, items);
+            this.completeEvent(event, cursor);
+
+            if (cachedPage?.isStale) {
+                this.revalidate(context, loadFunction, nodes);
+            }
+
+            if (hasMore === false) {
+                this.finish(event);
+            }
+        }).catch((error) => {
+            // Report the failures of the loader as well as the ones of the insertion, e.g. a throwing `render`
+            if (this.isCurrentEmission(event, emissionId)) {
+                this.reportError(event, error);
+            }
+        });
+    }
+
+    /**
+     * Calls a loader function, turning a synchronous throw into a rejected promise.
+     * @param loadFunction The loader function.
+     * @param context The context of the load.
+     * @returns Promise The value resolved by the loader function.
+     */
+    private callLoader(loadFunction: PureInfiniteScrollLoadFunction<T>, context: PureInfiniteScrollLoaderContext): Promise<Array<T | Node> | PureInfiniteScrollLoadResult<T>> {
+        return new Promise((resolve) => resolve(loadFunction(context)));
+    }
+
+    /**
+     * Records a loaded page in the cache, with the cache option.
+     * @param context The context of the load.
+     * @param result The value resolved by the loader function.
+     * @returns PureInfiniteScrollLoadResult The loaded page.
+     */
+    private cachePage(context: PureInfiniteScrollLoaderContext, result: Array<T | Node> | PureInfiniteScrollLoadResult<T>): PureInfiniteScrollLoadResult<T> {
+        const loadResult = toLoadResult(result);
+        this.pageCache?.set(getEdge(context.event), context.page, context.cursor, loadResult);
+
+        return loadResult;
+    }
+
+    /**
+     * Loads a stale cached page again, and replaces its nodes with the fresh ones if they are still displayed.
+     * The pagination keeps the cursor of the cached page, the fresh one is cached for the next time.
+     * @param context The context of the load.
+     * @param loadFunction The loader function.
+     * @param nodes The nodes of the stale page.
+     */
+    private revalidate(context: PureInfiniteScrollLoaderContext, loadFunction: PureInfiniteScrollLoadFunction<T>, nodes: Node[]) {
+        this.callLoader(loadFunction, context).then((result) => {
+            const { items } = this.cachePage(context, result);
+
+            if (!this.isDestroyed) {
+                this.replacePage(nodes, items, context.page);
+            }
+        }).catch(() => {
+            // Keep the stale page, it is loaded again next time
+        });
+    }
+
+    /**
+     * Replaces the displayed nodes of a page, keeping the visible content in place.
+     * @param nodes The nodes of the page, the ones no longer displayed are ignored.
+     * @param items The items replacing them.
+     * @param page The number of the page.
+     */
+    private replacePage(nodes: Node[], items: Array<T | Node>, page: number) {
+        const oldNodes = nodes.filter((node) => this.contentContainer.contains(node));
+
+        // The page was evicted or removed meanwhile
+        if (oldNodes.length === 0) {
+            return;
+        }
+
+        let newNodes: Node[] = [];
+
+        // The first visible item of the page stays in place through its fresh node with the same id
+        const getReplacement = (element: Element) => {
+            const id = this.getItemId(element);
+
+            return id === null ? null : newNodes.filter((node) => node instanceof Element && this.getItemId(node) === id)[0] ?? null;
+        };
+
+        this.keepVisibleContent(() => {
+            const reference = oldNodes[oldNodes.length - 1].nextSibling;
+
+            this.feedAccessibility?.releaseFocus(oldNodes);
+            oldNodes.forEach((node) => node.parentNode?.removeChild(node));
+
+            // Render once the stale nodes are removed, their keys are no longer rendered
+            newNodes = this.renderItems(items);
+            this.setNodePage(newNodes, page);
+
+            const fragment = document.createDocumentFragment();
+            newNodes.forEach((node) => fragment.appendChild(node));
+            this.contentContainer.insertBefore(fragment, reference);
+        }, getReplacement);
+
+        this.updateFeed();
+    }
+
+    /**
+     * Inserts the loaded items into the virtual list or the content container.
+     * @param event The event to be handled.
+     * @param items The items to be inserted.
+     * @returns Node[] The inserted nodes, none in virtual mode.
+     */
+    private insertItems(event: PureInfiniteScrollDirection, items: Array<T | Node>): Node[] {
+        if (!this.virtualList) {
+            const nodes = this.renderItems(items);
+            this.insertContent(event, nodes);
+
+            return nodes;
+        }
+
+        if (this.keyRegistry) {
+            items = this.keyRegistry.filter(items);
+            this.keyRegistry.register(items);
+        }
+
+        if (isStartEvent(event)) {
+            // Keep the visible items in place by scrolling past the prepended ones
+            const { offset } = getScrollMetrics(this.container, 'vertical');
+            setScrollOffset(this.container, 'vertical', offset + this.virtualList.prepend(items));
+            this.virtualList.update(true);
+        } else {
+            this.virtualList.append(items);
+        }
+
+        return [];
+    }
+
+    /**
+     * Renders the loaded items, dropping the already rendered ones with the `getKey` option.
+     * @param items The loaded items.
+     * @returns Node[] The nodes to be inserted.
+     */
+    private renderItems(items: Array<T | Node>): Node[] {
+        if (!this.keyRegistry) {
+            return toNodes(items, this.render);
+        }
+
+        const renderedItems = this.keyRegistry.filter(items);
+        const nodes = toNodes(renderedItems, this.render);
+        this.keyRegistry.register(renderedItems, nodes);
+
+        return nodes;
+    }
+
+    /**
+     * Inserts the loaded nodes into the content container.
+     * @param event The event to be handled.
+     * @param nodes The nodes to be inserted.
+     */
+    private insertContent(event: PureInfiniteScrollDirection, nodes: Node[]) {
+        this.setNodePage(nodes, this.pagination.getPage(getEdge(event)).page);
+
+        const fragment = document.createDocumentFragment();
+        nodes.forEach((node) => fragment.appendChild(node));
+
+        if (isStartEvent(event)) {
+            // Save the scroll position right before the insertion,
+            // the user may have scrolled while the content was loading.
+            this.saveScrollPosition();
+
+            this.contentContainer.insertBefore(fragment, this.getInsertionReference('start'));
+            this.handleContentChanges();
+        } else {
+            this.contentContainer.insertBefore(fragment, this.getInsertionReference('end'));
+        }
+    }
+
+    /**
+     * The items of the content container, in order.
+     */
+    private get contentElements(): Element[] {
+        return this.contentTracker.getItems();
+    }
+
+    /**
+     * Records the page of content nodes, only with the cap.
+     * @param nodes The content nodes.
+     * @param page The page of the nodes.
+     */
+    private setNodePage(nodes: Node[], page: number) {
+        if (this.maxItems !== null) {
+            nodes.forEach((node) => this.nodePages.set(node, page));
+        }
+    }
+
+    /**
+     * Removes the pages at the opposite end of a load beyond the cap, and re-arms the opposite direction.
+     * @param event The event which loaded content.
+     */
+    private evict(event: PureInfiniteScrollDirection) {
+        if (this.maxItems === null || this.isDestroyed) {
+            return;
+        }
+
+        const contentElements = this.contentElements;
+        const excess = contentElements.length - this.maxItems;
+
+        if (excess <= 0) {
+            return;
+        }
+
+        // Evict from the opposite end, in removal order
+        const fromStart = !isStartEvent(event);
+        const candidates = fromStart ? contentElements : contentElements.slice().reverse();
+        let count = excess;
+
+        // Without the page of the last evicted node, e.g. added with `done()` and no count,
+        // the page the direction would reload is unknown: keep the content
+        const page = this.nodePages.get(candidates[count - 1]);
+        if (page === undefined) {
+            return;
+        }
+
+        // Complete the page of the last evicted node, so the direction reloads whole pages
+        while (count < candidates.length && this.nodePages.get(candidates[count]) === page) {
+            count++;
+        }
+
+        const nodes = candidates.slice(0, count);
+
+        // The remaining nodes of unknown page follow the evicted page
+        const remainingPage = count < candidates.length
+            ? this.nodePages.get(candidates[count]) ?? (fromStart ? page + 1 : page - 1)
+            : undefined;
+
+        // Keep the visible content in place when removing at the top (start)
+        if (fromStart) {
+            this.saveScrollPosition();
+        }
+
+        this.feedAccessibility?.releaseFocus(nodes);
+        nodes.forEach((node) => node.parentNode?.removeChild(node));
+
+        const direction = fromStart ? this.startEvent : this.endEvent;
+        this.clearEndIndicator(getEdge(direction));
+
+        if (fromStart) {
+            this.compensateRemoval();
+        }
+
+        this.updateFeed();
+
+        if (remainingPage !== undefined) {
+            this.pagination.trim(getEdge(direction), remainingPage);
+        } else {
+            this.pagination.rearm(getEdge(direction));
+        }
+
+        const detail: PureInfiniteScrollEvictDetail = {
+            direction,
+            nodes: fromStart ? nodes : nodes.reverse(),
+            pages: this.pagination.range,
+        };
+        this.emit(PureInfiniteScrollEvent.Evicted, detail);
+    }
+
+    /**
+     * Keeps the visible content in place after content was removed at the top (start).
+     */
+    private compensateRemoval() {
+        if (this.scrollAnchor) {
+            this.scrollAnchor.restore();
+            return;
+        }
+
+        const heightDifference = this.previousScrollHeight - getScrollMetrics(this.container, this.axis).scrollSize;
+
+        setScrollOffset(this.container, this.axis, this.previousScrollTop - heightDifference);
+    }
+
+    /**
+     * Returns the edge of an auxiliary node of the content container, such as the sentinels.
+     * Auxiliary nodes are kept at the edges and are not content.
+     * @param node The node to be checked.
+     * @returns PureInfiniteScrollEdge | null `null` when the node is content.
+     */
+    private getAuxiliaryEdge(node: Node | null): PureInfiniteScrollEdge | null {
+        return this.sentinelObserver?.getEdge(node) ?? this.indicatorManager?.getEdge(node) ?? null;
+    }
+
+    /**
+     * Shows a state in the indicator of an edge.
+     * Replacing or removing the indicator at the top (start) keeps the visible content in place.
+     * @param edge The edge.
+     * @param state The state to be shown, `null` to hide the indicator.
+     * @param error The error reported for the "error" state.
+     */
+    private setIndicator(edge: PureInfiniteScrollEdge, state: PureInfiniteScrollIndicatorState | null, error?: unknown) {
+        if (!this.indicatorManager || (state !== 'error' && this.indicatorManager.getState(edge) === state)) {
+            return;
+        }
+
+        const compensate = edge === 'start' && this.indicatorManager.isShown(edge);
+        const { offset, scrollSize } = getScrollMetrics(this.container, this.axis);
+
+        this.indicatorManager.show(edge, state, error);
+
+        if (compensate) {
+            setScrollOffset(this.container, this.axis, offset + getScrollMetrics(this.container, this.axis).scrollSize - scrollSize);
+        }
+    }
+
+    /**
+     * Updates the positions of the items in the feed, with the accessibility mode.
+     * @returns number The number of new items.
+     */
+    private updateFeed(): number {
+        if (!this.feedAccessibility || this.isDestroyed) {
+            return 0;
+        }
+
+        return this.feedAccessibility.update(this.pagination.isFinished('end'));
+    }
+
+    /**
+     * Hides the end indicator of a re-armed edge.
+     * @param edge The edge.
+     */
+    private clearEndIndicator(edge: PureInfiniteScrollEdge) {
+        if (this.indicatorManager?.getState(edge) === 'end') {
+            this.setIndicator(edge, null);
+        }
+    }
+
+    /**
+     * Returns the node before which content is inserted at an edge, skipping the auxiliary nodes of that edge.
+     * @param edge The edge of the insertion.
+     * @returns Node | null `null` to append at the very end.
+     */
+    private getInsertionReference(edge: PureInfiniteScrollEdge): Node | null {
+        if (edge === 'start') {
+            let node = this.contentContainer.firstChild;
+
+            while (node && this.getAuxiliaryEdge(node) === 'start') {
+                node = node.nextSibling;
             }
+
+            return node;
+        }
+
+        let reference: Node | null = null;
+
+        for (let node = this.contentContainer.lastChild; node && this.getAuxiliaryEdge(node) === 'end'; node = node.previousSibling) {
+            reference = node;
+        }
+
+        return reference;
+    }
+
+    /**
+     * Completes an event once its content is inserted, allowing it to be emitted again.
+     * @param event The event to be completed.
+     * @param cursor The cursor of the page after the loaded one, if provided by the loader.
+     */
+    private completeEvent(event: PureInfiniteScrollDirection, cursor?: string | null) {
+        const finished = this.pagination.advance(getEdge(event), cursor);
+        this.loadCounts[event]++;
+        this.failedAttempts[event] = 0;
+
+        this.clearEvent(event, 'completed');
+
+        const added = this.updateFeed();
+
+        if (finished) {
+            this.emitReached(event);
+        }
+
+        // Continue once the content is in place and the direction possibly finished
+        Promise.resolve().then(() => {
+            this.feedAccessibility?.announce(added, !isStartEvent(event) && this.pagination.isFinished('end'));
+            this.evict(event);
+            this.continueFilling();
+            this.continueRestoring();
+            this.recordHistory();
         });
+    }
 
-        // Start observing the content container for child node additions
-        this.observerEvents[event].observe(this.contentContainer, { childList: true });
+    /**
+     * Cancels the scheduled automatic retry of an event.
+     * @param event The event.
+     */
+    private cancelRetry(event: PureInfiniteScrollDirection) {
+        const timeout = this.retryTimeouts[event];
+
+        if (timeout !== null) {
+            clearTimeout(timeout);
+            this.retryTimeouts[event] = null;
+        }
+    }
+
+    /**
+     * Clears the waiting state of an event, allowing it to be emitted again.
+     * Emits "loadEnd" if the event was waiting.
+     * @param event The event to be cleared.
+     * @param status How the load of the event ended.
+     */
+    private clearEvent(event: PureInfiniteScrollDirection, status: PureInfiniteScrollLoadStatus = 'cancelled') {
+        const wasWaiting = this.isWaitingEvents[event];
+
+        // Invalidate the completion handles of the emission
+        this.emissionIds[event]++;
+
+        const watchdogTimeout = this.watchdogTimeouts[event];
+
+        if (watchdogTimeout !== null) {
+            clearTimeout(watchdogTimeout);
+            this.watchdogTimeouts[event] = null;
+        }
+
+        // Stop observing further changes for this event
+        this.observerEvents[event]?.disconnect();
+        this.observerEvents[event] = null;
+
+        // Mark the event as not waiting anymore
+        this.isWaitingEvents[event] = false;
+        this.loadingEvents[event] = null;
+
+        this.feedAccessibility?.setBusy(Object.keys(this.isWaitingEvents).some((key) => this.isWaitingEvents[key as PureInfiniteScrollDirection]));
+
+        // Hide the loading and error indicators, the end indicator stays until the direction is re-armed
+        if (status !== 'failed' && this.indicatorManager?.getState(getEdge(event)) !== 'end') {
+            this.setIndicator(getEdge(event), null);
+        }
+
+        // Report the sentinels again if they are still visible after the new content
+        this.sentinelObserver?.refresh();
+
+        if (wasWaiting && !this.isDestroyed) {
+            const timestamp = Date.now();
+            const detail: PureInfiniteScrollLoadEndDetail = {
+                direction: event,
+                status,
+                duration: timestamp - this.loadStartTimes[event],
+                loadCount: this.loadCounts[event],
+                timestamp,
+            };
+
+            if (status === 'completed') {
+                this.prefetcher?.recordLatency(detail.duration);
+            }
+
+            this.emit(PureInfiniteScrollEvent.LoadEnd, detail);
+        }
+    }
+
+    /**
+     * Saves the current scroll position along the scroll axis.
+     */
+    private saveScrollPosition() {
+        const { offset, scrollSize } = getScrollMetrics(this.container, this.axis);
+
+        this.previousScrollHeight = scrollSize;
+        this.previousScrollTop = offset;
+
+        this.scrollAnchor?.capture();
     }
 
     /**
      * Handles the content changes.
      */
     private handleContentChanges() {
+        // Keep the first visible item in place instead
+        if (this.scrollAnchor) {
+            this.scrollAnchor.pin();
+            return;
+        }
+
         // Calculate the new scroll position to retain user view
-        const newScrollHeight = this.container.scrollHeight;
+        const newScrollHeight = getScrollMetrics(this.container, this.axis).scrollSize;
         const heightDifference = newScrollHeight - this.previousScrollHeight;
 
-        // Update scroll position to keep the content at the top unchanged for the user
-        this.container.scrollTop = this.previousScrollTop + heightDifference;
+        // Update scroll position to keep the content at the top (start) unchanged for the user
+        setScrollOffset(this.container, this.axis, this.previousScrollTop + heightDifference);
     }
 }
 
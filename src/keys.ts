@@ -0,0 +1,120 @@
+/**
+ * Returns the key of an item, or of a DOM node for the nodes inserted as they are and the initial content.
+ * `null` when the item has no key, it is then never considered a duplicate.
+ * In method form, which keeps e.g. a `PureInfiniteScroll<Item>` assignable to a `PureInfiniteScroll`.
+ */
+export type PureInfiniteScrollGetKey<T> = { getKey(item: T | Node): string | null }['getKey'];
+
+/**
+ * Key registry.
+ * Tracks the keys of the rendered items, to drop the duplicates of the loaded pages
+ * and to find the node of an item by its key.
+ */
+export class KeyRegistry<T> {
+    /**
+     * Returns the key of an item.
+     */
+    private getKey: PureInfiniteScrollGetKey<T>;
+
+    /**
+     * The container of the content child's.
+     */
+    private contentContainer: HTMLElement;
+
+    /**
+     * The node of each rendered key, `null` for the items of the virtual list.
+     */
+    private nodes: Map<string, Node | null> = new Map();
+
+    /**
+     * Constructor.
+     * @param getKey Returns the key of an item.
+     * @param contentContainer The container of the content child's.
+     */
+    constructor(getKey: PureInfiniteScrollGetKey<T>, contentContainer: HTMLElement) {
+        this.getKey = getKey;
+        this.contentContainer = contentContainer;
+    }
+
+    /**
+     * Drops the items whose key is already rendered or appears earlier among the items.
+     * @param items The loaded items.
+     * @returns Array<T | Node> The items to be rendered, in order.
+     */
+    public filter(items: Array<T | Node>): Array<T | Node> {
+        const keys: string[] = [];
+
+        return items.filter((item) => {
+            const key = this.getKey(item);
+
+            if (key === null) {
+                return true;
+            }
+
+            if (this.has(key) || keys.indexOf(key) !== -1) {
+                return false;
+            }
+
+            keys.push(key);
+
+            return true;
+        });
+    }
+
+    /**
+     * Records the keys of rendered items.
+     * @param items The items.
+     * @param nodes The node of each item, omitted for the items of the virtual list.
+     */
+    public register(items: Array<T | Node>, nodes?: Node[]) {
+        items.forEach((item, index) => {
+            const key = this.getKey(item);
+
+            if (key !== null) {
+                this.nodes.set(key, nodes ? nodes[index] : null);
+            }
+        });
+    }
+
+    /**
+     * Replaces the node of a key.
+     * @param key The key.
+     * @param node The new node.
+     */
+    public set(key: string, node: Node) {
+        this.nodes.set(key, node);
+    }
+
+    /**
+     * Forgets a key.
+     * @param key The key.
+     */
+    public delete(key: string) {
+        this.nodes.delete(key);
+    }
+
+    /**
+     * Returns the node of a key still displayed.
+     * @param key The key.
+     * @returns Node | null `null` when no displayed node has the key.
+     */
+    public get(key: string): Node | null {
+        const node = this.nodes.get(key);
+
+        return node && this.contentContainer.contains(node) ? node : null;
+    }
+
+    /**
+     * Checks if a key is rendered.
+     * The nodes removed from the content container, e.g. evicted, no longer count as rendered.
+     * @param key The key.
+     * @returns boolean
+     */
+    private has(key: string): boolean {
+        if (!this.nodes.has(key)) {
+            return false;
+        }
+
+        return this.nodes.get(key) === null || this.get(key) !== null;
+    }
+}
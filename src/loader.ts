@@ -0,0 +1,155 @@
+import type { PureInfiniteScrollDirection } from "./events";
+
+/**
+ * Context passed to the loader functions.
+ */
+export interface PureInfiniteScrollLoaderContext {
+    /**
+     * The event that triggered the load.
+     */
+    event: PureInfiniteScrollDirection;
+
+    /**
+     * The container of the content child's.
+     */
+    contentContainer: HTMLElement;
+
+    /**
+     * The number of loads already completed in this direction.
+     */
+    loadCount: number;
+
+    /**
+     * The number of the page to be loaded.
+     */
+    page: number;
+
+    /**
+     * The cursor of the page to be loaded, `null` when not using cursors.
+     */
+    cursor: string | null;
+}
+
+/**
+ * Loaded items along with the pagination state of their direction.
+ */
+export interface PureInfiniteScrollLoadResult<T> {
+    /**
+     * The loaded items.
+     */
+    items: Array<T | Node>;
+
+    /**
+     * The cursor of the page after the loaded one in this direction, `null` when there is none.
+     */
+    cursor?: string | null;
+
+    /**
+     * Whether there is more to load in this direction, `false` finishes the direction.
+     */
+    hasMore?: boolean;
+}
+
+/**
+ * Function loading the next or previous chunk of content.
+ * Resolves with DOM nodes, or with items which are turned into nodes by the `render` function,
+ * optionally along with the pagination state of the direction.
+ */
+export type PureInfiniteScrollLoadFunction<T> = (context: PureInfiniteScrollLoaderContext) => Promise<Array<T | Node> | PureInfiniteScrollLoadResult<T>>;
+
+/**
+ * Context passed to the `loadAround` loader function.
+ */
+export interface PureInfiniteScrollLoadAroundContext {
+    /**
+     * The id of the item to be displayed.
+     */
+    id: string;
+
+    /**
+     * The container of the content child's.
+     */
+    contentContainer: HTMLElement;
+}
+
+/**
+ * The page containing an item, resolved by the `loadAround` loader function.
+ */
+export interface PureInfiniteScrollLoadAroundResult<T> {
+    /**
+     * The items of the page, including the item to be displayed.
+     */
+    items: Array<T | Node>;
+
+    /**
+     * The number of the page.
+     */
+    page: number;
+
+    /**
+     * The cursor of the page before it, for cursor-based APIs. `null` finishes the start.
+     */
+    previousCursor?: string | null;
+
+    /**
+     * The cursor of the page after it, for cursor-based APIs. `null` finishes the end.
+     */
+    nextCursor?: string | null;
+}
+
+/**
+ * Loader functions, one per direction.
+ */
+export interface PureInfiniteScrollLoader<T> {
+    /**
+     * Loads the content appended at the bottom (end) of the content container.
+     */
+    loadNext?: PureInfiniteScrollLoadFunction<T>;
+
+    /**
+     * Loads the content prepended at the top (start) of the content container.
+     */
+    loadPrevious?: PureInfiniteScrollLoadFunction<T>;
+
+    /**
+     * Loads the page containing an item which isn't displayed, for `scrollToItem`.
+     * Resolves with `null` when the item doesn't exist.
+     */
+    loadAround?: (context: PureInfiniteScrollLoadAroundContext) => Promise<PureInfiniteScrollLoadAroundResult<T> | null>;
+}
+
+/**
+ * Function turning a loaded item into a DOM node.
+ * Declared in method form, so that an infinite scroll of specific items is assignable to one of unknown items.
+ */
+export type PureInfiniteScrollRender<T> = { render(item: T): Node }['render'];
+
+/**
+ * Converts loaded items into DOM nodes.
+ * @param items The items resolved by a loader function.
+ * @param render The render function used for items which are not DOM nodes.
+ * @returns Node[]
+ */
+export function toNodes<T>(items: Array<T | Node>, render?: PureInfiniteScrollRender<T>): Node[] {
+    return items.map((item) => {
+        // Nodes are inserted as they are
+        if (item instanceof Node) {
+            return item;
+        }
+
+        if (!render) {
+            throw new Error('PureInfiniteScroll: a `render` function is required to insert items which are not DOM nodes.');
+        }
+
+        return render(item);
+    });
+}
+
+/**
+ * Normalizes the value resolved by a loader function.
+ * @param result The value resolved by a loader function.
+ * @returns PureInfiniteScrollLoadResult
+ */
+export function toLoadResult<T>(result: Array<T | Node> | PureInfiniteScrollLoadResult<T>): PureInfiniteScrollLoadResult<T> {
+    return Array.isArray(result) ? { items: result } : result;
+}
@@ -0,0 +1,223 @@
+import type { PureInfiniteScrollEdge } from "./events";
+
+/**
+ * Options of the pagination.
+ */
+export interface PureInfiniteScrollPaginationOptions {
+    /**
+     * The page already displayed, 1 by default.
+     * Without cursors, the start is finished once the first page is displayed.
+     */
+    initialPage?: number;
+
+    /**
+     * The cursor of the page after the displayed ones, for cursor-based APIs.
+     * `null` means the end is finished.
+     */
+    nextCursor?: string | null;
+
+    /**
+     * The cursor of the page before the displayed ones, for cursor-based APIs.
+     * `null` means the start is finished.
+     */
+    previousCursor?: string | null;
+}
+
+/**
+ * The page to be loaded at an edge.
+ */
+export interface PureInfiniteScrollPage {
+    /**
+     * The number of the page.
+     */
+    page: number;
+
+    /**
+     * The cursor of the page, `null` when not using cursors.
+     */
+    cursor: string | null;
+}
+
+/**
+ * Pagination controller.
+ * Tracks the range of displayed pages, the cursors and the finished state of both edges.
+ */
+export class PaginationController {
+    /**
+     * The displayed page at each edge.
+     */
+    private pages: { [key in PureInfiniteScrollEdge]: number };
+
+    /**
+     * The cursor of the page to be loaded at each edge.
+     */
+    private cursors: { [key in PureInfiniteScrollEdge]: string | null };
+
+    /**
+     * Whether each edge uses cursors, a `null` cursor then finishes the edge.
+     */
+    private usesCursors: { [key in PureInfiniteScrollEdge]: boolean };
+
+    /**
+     * Whether each edge is finished.
+     */
+    private finished: { [key in PureInfiniteScrollEdge]: boolean } = {
+        start: false,
+        end: false,
+    };
+
+    /**
+     * Whether the start is finished once the first page is displayed.
+     */
+    private finishesAtFirstPage: boolean;
+
+    /**
+     * Constructor.
+     * @param options The options of the pagination, omitted to track the pages without finishing any edge.
+     */
+    constructor(options?: PureInfiniteScrollPaginationOptions) {
+        const initialPage = options?.initialPage ?? 1;
+
+        this.pages = { start: initialPage, end: initialPage };
+        this.cursors = { start: options?.previousCursor ?? null, end: options?.nextCursor ?? null };
+        this.usesCursors = {
+            start: options?.previousCursor !== undefined,
+            end: options?.nextCursor !== undefined,
+        };
+        this.finishesAtFirstPage = !!options && !this.usesCursors.start;
+
+        this.finished.start = this.shouldFinish('start');
+        this.finished.end = this.shouldFinish('end');
+    }
+
+    /**
+     * The range of displayed pages.
+     */
+    get range(): { first: number, last: number } {
+        return { first: this.pages.start, last: this.pages.end };
+    }
+
+    /**
+     * Returns the page to be loaded at an edge.
+     * @param edge The edge of the content.
+     * @returns PureInfiniteScrollPage
+     */
+    public getPage(edge: PureInfiniteScrollEdge): PureInfiniteScrollPage {
+        return {
+            page: edge === 'start' ? this.pages.start - 1 : this.pages.end + 1,
+            cursor: this.cursors[edge],
+        };
+    }
+
+    /**
+     * Moves an edge to the loaded page.
+     * @param edge The edge of the content.
+     * @param cursor The cursor of the page after the loaded one, if provided by the loader.
+     * @returns boolean Whether the edge became finished.
+     */
+    public advance(edge: PureInfiniteScrollEdge, cursor?: string | null): boolean {
+        this.pages[edge] += edge === 'start' ? -1 : 1;
+
+        if (cursor !== undefined) {
+            this.setCursor(edge, cursor);
+        }
+
+        if (this.finished[edge] || !this.shouldFinish(edge)) {
+            return false;
+        }
+
+        this.finished[edge] = true;
+
+        return true;
+    }
+
+    /**
+     * Sets the cursor of the page to be loaded at an edge.
+     * @param edge The edge of the content.
+     * @param cursor The cursor, `null` finishes the edge on its next advance.
+     */
+    public setCursor(edge: PureInfiniteScrollEdge, cursor: string | null) {
+        this.cursors[edge] = cursor;
+        this.usesCursors[edge] = true;
+    }
+
+    /**
+     * Checks if an edge is finished.
+     * @param edge The edge of the content.
+     * @returns boolean
+     */
+    public isFinished(edge: PureInfiniteScrollEdge): boolean {
+        return this.finished[edge];
+    }
+
+    /**
+     * Marks an edge as finished.
+     * @param edge The edge of the content.
+     * @returns boolean Whether the edge wasn't finished yet.
+     */
+    public finish(edge: PureInfiniteScrollEdge): boolean {
+        const wasFinished = this.finished[edge];
+        this.finished[edge] = true;
+
+        return !wasFinished;
+    }
+
+    /**
+     * Re-arms a finished edge.
+     * @param edge The edge of the content.
+     * @param cursor The cursor of the page to be loaded, if new data is available through a cursor.
+     */
+    public rearm(edge: PureInfiniteScrollEdge, cursor?: string | null) {
+        if (cursor !== undefined) {
+            this.setCursor(edge, cursor);
+        }
+
+        this.finished[edge] = false;
+    }
+
+    /**
+     * Moves an edge back to a displayed page after the pages beyond it were removed, and re-arms it.
+     * With cursors, the cursor of the edge is kept and should be set to the one loading the removed pages.
+     * @param edge The edge of the content.
+     * @param page The page now displayed at the edge.
+     */
+    public trim(edge: PureInfiniteScrollEdge, page: number) {
+        this.pages[edge] = page;
+        this.finished[edge] = false;
+    }
+
+    /**
+     * Moves both edges to a single displayed page, after the displayed pages were replaced by it.
+     * With cursors, the cursors of the pages before and after it should be provided.
+     * @param page The page now displayed.
+     * @param previousCursor The cursor of the page before it, if provided.
+     * @param nextCursor The cursor of the page after it, if provided.
+     */
+    public reset(page: number, previousCursor?: string | null, nextCursor?: string | null) {
+        this.pages = { start: page, end: page };
+
+        if (previousCursor !== undefined) {
+            this.setCursor('start', previousCursor);
+        }
+
+        if (nextCursor !== undefined) {
+            this.setCursor('end', nextCursor);
+        }
+
+        this.finished.start = this.shouldFinish('start');
+        this.finished.end = this.shouldFinish('end');
+    }
+
+    /**
+     * Checks if an edge has nothing more to load according to its page or cursor.
+     * @param edge The edge of the content.
+     * @returns boolean
+     */
+    private shouldFinish(edge: PureInfiniteScrollEdge): boolean {
+        if (this.usesCursors[edge]) {
+            return this.cursors[edge] === null;
+        }
+
+        return edge === 'start' && this.finishesAtFirstPage && this.pages.start <= 1;
+    }
+}
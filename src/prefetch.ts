@@ -0,0 +1,85 @@
+/**
+ * Options of the predictive prefetch.
+ */
+export interface PureInfiniteScrollPrefetchOptions {
+    /**
+     * The minimum distance from the edge in pixels at which content is loaded, the threshold by default.
+     */
+    minLookahead?: number;
+
+    /**
+     * The maximum distance from the edge in pixels at which content is loaded, 2000 by default.
+     */
+    maxLookahead?: number;
+
+    /**
+     * The load latency in milliseconds assumed until a load is measured, 300 by default.
+     */
+    initialLatency?: number;
+}
+
+/**
+ * Weight of the latest measure in the average latency.
+ */
+const LATENCY_WEIGHT = 0.3;
+
+/**
+ * Predictive prefetch.
+ * Measures the average load latency and computes the distance from the edge at which content must be loaded
+ * to arrive before the edge is reached at the current speed.
+ */
+export class Prefetcher {
+    /**
+     * The minimum lookahead, `null` to use the threshold.
+     */
+    private minLookahead: number | null;
+
+    /**
+     * The maximum lookahead.
+     */
+    private maxLookahead: number;
+
+    /**
+     * The average load latency in milliseconds.
+     */
+    public latency: number;
+
+    /**
+     * Whether a load was measured yet.
+     */
+    private isMeasured: boolean = false;
+
+    /**
+     * Constructor.
+     * @param options The options of the predictive prefetch.
+     */
+    constructor(options: PureInfiniteScrollPrefetchOptions = {}) {
+        this.minLookahead = options.minLookahead ?? null;
+        this.maxLookahead = options.maxLookahead ?? 2000;
+        this.latency = options.initialLatency ?? 300;
+    }
+
+    /**
+     * Records the duration of a completed load in the average latency.
+     * @param duration The duration of the load in milliseconds.
+     */
+    public recordLatency(duration: number) {
+        this.latency = this.isMeasured
+            ? this.latency * (1 - LATENCY_WEIGHT) + duration * LATENCY_WEIGHT
+            : duration;
+        this.isMeasured = true;
+    }
+
+    /**
+     * Returns the distance from the edge at which content must be loaded.
+     * @param speed The speed towards the edge in pixels per second, negative when moving away from it.
+     * @param threshold The threshold of the infinite scroll, used as the default minimum lookahead.
+     * @returns number The lookahead in pixels.
+     */
+    public getLookahead(speed: number, threshold: number): number {
+        const minLookahead = this.minLookahead ?? threshold;
+        const lookahead = Math.max(speed, 0) * this.latency / 1000;
+
+        return Math.min(Math.max(lookahead, minLookahead), Math.max(this.maxLookahead, minLookahead));
+    }
+}
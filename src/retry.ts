@@ -0,0 +1,48 @@
+/**
+ * Options of the automatic retry of failed loads.
+ */
+export interface PureInfiniteScrollRetryOptions {
+    /**
+     * The number of automatic retries after a failure, 0 by default.
+     */
+    retries?: number;
+
+    /**
+     * The delay in milliseconds before the first retry, 1000 by default.
+     */
+    delay?: number;
+
+    /**
+     * The multiplier applied to the delay after each failure, 2 by default.
+     */
+    factor?: number;
+
+    /**
+     * The maximum delay in milliseconds, 30000 by default.
+     */
+    maxDelay?: number;
+
+    /**
+     * The fraction of the delay randomized to spread the retries of many clients, from 0 to 1, 0.5 by default.
+     */
+    jitter?: number;
+}
+
+/**
+ * Computes the delay before a retry with exponential backoff and jitter.
+ * @param attempt The number of failed attempts, starting at 1.
+ * @param options The options of the retry.
+ * @param random The random number generator, returning a number from 0 to 1.
+ * @returns number The delay in milliseconds.
+ */
+export function getRetryDelay(attempt: number, options: PureInfiniteScrollRetryOptions, random: () => number = Math.random): number {
+    const delay = options.delay ?? 1000;
+    const factor = options.factor ?? 2;
+    const maxDelay = options.maxDelay ?? 30000;
+    const jitter = Math.min(Math.max(options.jitter ?? 0.5, 0), 1);
+
+    const backoff = Math.min(delay * Math.pow(factor, attempt - 1), maxDelay);
+
+    // Keep the non-random part and randomize the rest
+    return Math.round(backoff * (1 - jitter) + backoff * jitter * random());
+}
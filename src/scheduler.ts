@@ -0,0 +1,289 @@
+/**
+ * Options of the scheduler.
+ */
+export interface PureInfiniteScrollSchedulerOptions {
+    /**
+     * The minimum time in milliseconds between two passes, 0 by default for a pass per animation frame.
+     */
+    throttle?: number;
+
+    /**
+     * Waits until the scrolling stopped for this time in milliseconds before running a pass.
+     * Takes precedence over the throttle.
+     */
+    debounce?: number;
+}
+
+/**
+ * Counters of the work done by the scheduler, to be compared with the number of scroll events.
+ */
+export interface PureInfiniteScrollSchedulerStats {
+    /**
+     * The number of scroll events received.
+     */
+    scrollEvents: number;
+
+    /**
+     * The number of passes run.
+     */
+    passes: number;
+
+    /**
+     * The number of tasks evaluated during the passes.
+     */
+    evaluations: number;
+}
+
+/**
+ * Work scheduled on the scroll of a target.
+ * All the reads of a pass run before all the writes, so the layout is computed once per pass.
+ */
+export interface PureInfiniteScrollSchedulerTask<R = unknown> {
+    /**
+     * Reads the geometry, without modifying the DOM.
+     */
+    read: () => R;
+
+    /**
+     * Acts on the result of the read, possibly modifying the DOM.
+     */
+    write: (result: R) => void;
+}
+
+/**
+ * A scroll target with its listener and tasks.
+ */
+interface ScheduledTarget {
+    listener: () => void;
+    tasks: PureInfiniteScrollSchedulerTask[];
+}
+
+/**
+ * Requests a callback on the next animation frame, or after a frame time without `requestAnimationFrame`.
+ * @param callback The callback.
+ */
+function requestFrame(callback: () => void) {
+    if (typeof requestAnimationFrame !== 'undefined') {
+        requestAnimationFrame(callback);
+    } else {
+        setTimeout(callback, 16);
+    }
+}
+
+/**
+ * Scroll scheduler shared by several infinite scrolls.
+ * Listens to each scroll target once with a passive listener,
+ * and evaluates the tasks of the scrolled targets in a single animation frame pass.
+ */
+export class PureInfiniteScrollScheduler {
+    /**
+     * The scheduler shared by the infinite scrolls created with `scheduler: true`.
+     */
+    private static sharedScheduler: PureInfiniteScrollScheduler | null = null;
+
+    /**
+     * The minimum time between two passes.
+     */
+    private throttle: number;
+
+    /**
+     * The time without scrolling before a pass, `null` when not debouncing.
+     */
+    private debounce: number | null;
+
+    /**
+     * The scroll targets with their listener and tasks.
+     */
+    private targets: Map<EventTarget, ScheduledTarget> = new Map();
+
+    /**
+     * The tasks of the targets scrolled since the last pass.
+     */
+    private pendingTasks: PureInfiniteScrollSchedulerTask[] = [];
+
+    /**
+     * Whether a pass is requested.
+     */
+    private isScheduled: boolean = false;
+
+    /**
+     * The timeout delaying the pass, when throttling or debouncing.
+     */
+    private delayTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * The time of the last pass.
+     */
+    private lastPassTime: number = 0;
+
+    /**
+     * The counters of the work done.
+     */
+    private counters: PureInfiniteScrollSchedulerStats = { scrollEvents: 0, passes: 0, evaluations: 0 };
+
+    /**
+     * Constructor.
+     * @param options The options of the scheduler.
+     */
+    constructor(options: PureInfiniteScrollSchedulerOptions = {}) {
+        this.throttle = options.throttle ?? 0;
+        this.debounce = options.debounce ?? null;
+    }
+
+    /**
+     * The scheduler shared by the infinite scrolls created with `scheduler: true`.
+     */
+    static get shared(): PureInfiniteScrollScheduler {
+        if (!PureInfiniteScrollScheduler.sharedScheduler) {
+            PureInfiniteScrollScheduler.sharedScheduler = new PureInfiniteScrollScheduler();
+        }
+
+        return PureInfiniteScrollScheduler.sharedScheduler;
+    }
+
+    /**
+     * The counters of the work done since the creation or the last reset.
+     */
+    get stats(): PureInfiniteScrollSchedulerStats {
+        return { ...this.counters };
+    }
+
+    /**
+     * Resets the counters of the work done.
+     */
+    public resetStats() {
+        this.counters = { scrollEvents: 0, passes: 0, evaluations: 0 };
+    }
+
+    /**
+     * Evaluates a task whenever a target is scrolled.
+     * @param target The scroll target, an element or the window.
+     * @param task The task to be evaluated.
+     * @returns () => void Stops evaluating the task.
+     */
+    public register<R>(target: EventTarget, task: PureInfiniteScrollSchedulerTask<R>): () => void {
+        let scheduledTarget = this.targets.get(target);
+
+        if (!scheduledTarget) {
+            const listener = () => this.handleScroll(target);
+            scheduledTarget = { listener, tasks: [] };
+
+            this.targets.set(target, scheduledTarget);
+            target.addEventListener('scroll', listener, { passive: true });
+        }
+
+        scheduledTarget.tasks.push(task as PureInfiniteScrollSchedulerTask);
+
+        return () => this.unregister(target, task as PureInfiniteScrollSchedulerTask);
+    }
+
+    /**
+     * Runs the pending pass immediately.
+     */
+    public flush() {
+        if (this.delayTimeout !== null) {
+            clearTimeout(this.delayTimeout);
+            this.delayTimeout = null;
+        }
+
+        this.isScheduled = false;
+
+        const tasks = this.pendingTasks;
+        this.pendingTasks = [];
+
+        if (tasks.length === 0) {
+            return;
+        }
+
+        this.lastPassTime = Date.now();
+        this.counters.passes++;
+        this.counters.evaluations += tasks.length;
+
+        // Read the geometry of every task before any of them modifies the DOM
+        const results = tasks.map((task) => task.read());
+        tasks.forEach((task, index) => task.write(results[index]));
+    }
+
+    /**
+     * Stops evaluating a task, and stops listening to its target once it has no task left.
+     * @param target The scroll target.
+     * @param task The task.
+     */
+    private unregister(target: EventTarget, task: PureInfiniteScrollSchedulerTask) {
+        const scheduledTarget = this.targets.get(target);
+
+        if (!scheduledTarget || scheduledTarget.tasks.indexOf(task) === -1) {
+            return;
+        }
+
+        scheduledTarget.tasks.splice(scheduledTarget.tasks.indexOf(task), 1);
+        this.pendingTasks = this.pendingTasks.filter((pendingTask) => pendingTask !== task);
+
+        if (scheduledTarget.tasks.length === 0) {
+            target.removeEventListener('scroll', scheduledTarget.listener);
+            this.targets.delete(target);
+        }
+    }
+
+    /**
+     * Handles the scroll of a target, adding its tasks to the next pass.
+     * @param target The scrolled target.
+     */
+    private handleScroll(target: EventTarget) {
+        this.counters.scrollEvents++;
+
+        this.targets.get(target)?.tasks.forEach((task) => {
+            if (this.pendingTasks.indexOf(task) === -1) {
+                this.pendingTasks.push(task);
+            }
+        });
+
+        this.schedule();
+    }
+
+    /**
+     * Requests a pass, delayed by the throttle or the debounce.
+     */
+    private schedule() {
+        // Every scroll event delays the debounced pass
+        if (this.debounce !== null) {
+            if (this.delayTimeout !== null) {
+                clearTimeout(this.delayTimeout);
+            }
+
+            this.delayTimeout = setTimeout(() => this.requestPass(), this.debounce);
+            return;
+        }
+
+        if (this.isScheduled || this.delayTimeout !== null) {
+            return;
+        }
+
+        const delay = this.lastPassTime + this.throttle - Date.now();
+
+        if (delay > 0) {
+            this.delayTimeout = setTimeout(() => this.requestPass(), delay);
+        } else {
+            this.requestPass();
+        }
+    }
+
+    /**
+     * Requests a pass on the next animation frame.
+     */
+    private requestPass() {
+        this.delayTimeout = null;
+
+        if (this.isScheduled) {
+            return;
+        }
+
+        this.isScheduled = true;
+
+        requestFrame(() => {
+            if (this.isScheduled) {
+                this.flush();
+            }
+        });
+    }
+}
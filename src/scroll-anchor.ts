@@ -0,0 +1,228 @@
+import { getScrollMetrics, isRtl, isWindow, PureInfiniteScrollAxis, PureInfiniteScrollContainer, setScrollOffset } from "./axis";
+
+/**
+ * Options of the anchor-based scroll restoration.
+ */
+export interface PureInfiniteScrollAnchoringOptions {
+    /**
+     * The time in milliseconds during which the anchor is kept in place after an insertion,
+     * while late layout shifts (images, embeds) settle. 1000 by default.
+     */
+    settleTime?: number;
+}
+
+/**
+ * A visible element with its offset from the start of the visible area.
+ */
+export interface VisibleElement {
+    element: Element;
+    offset: number;
+}
+
+/**
+ * Returns the position of the start of the visible area in the viewport.
+ * @param container The container of the scrollable area, or the window.
+ * @param axis The axis along which the container scrolls.
+ * @returns number
+ */
+function getViewportStart(container: PureInfiniteScrollContainer, axis: PureInfiniteScrollAxis): number {
+    if (isWindow(container)) {
+        return 0;
+    }
+
+    const rect = container.getBoundingClientRect();
+
+    return axis === 'vertical' ? rect.top : rect.left;
+}
+
+/**
+ * Returns the position of an element in the viewport along the scroll axis.
+ * @param element The element.
+ * @param axis The axis along which the container scrolls.
+ * @returns object
+ */
+function getBounds(element: Element, axis: PureInfiniteScrollAxis): { start: number, end: number } {
+    const rect = element.getBoundingClientRect();
+
+    return axis === 'vertical'
+        ? { start: rect.top, end: rect.bottom }
+        : { start: rect.left, end: rect.right };
+}
+
+/**
+ * Returns the items intersecting the visible area, in order.
+ * @param container The container of the scrollable area, or the window.
+ * @param axis The axis along which the container scrolls.
+ * @param items The items of the content, in order.
+ * @returns VisibleElement[]
+ */
+export function getVisibleElements(container: PureInfiniteScrollContainer, axis: PureInfiniteScrollAxis, items: Element[]): VisibleElement[] {
+    const viewportStart = getViewportStart(container, axis);
+    const viewportSize = getScrollMetrics(container, axis).clientSize;
+
+    return items
+        .map((element) => ({ element, bounds: getBounds(element, axis) }))
+        .filter(({ bounds }) => bounds.end > viewportStart && bounds.start < viewportStart + viewportSize)
+        .map(({ element, bounds }) => ({ element, offset: bounds.start - viewportStart }));
+}
+
+/**
+ * Scrolls the container so an element is at an offset from the start of the visible area.
+ * @param container The container of the scrollable area, or the window.
+ * @param axis The axis along which the container scrolls.
+ * @param element The element.
+ * @param offset The offset from the start of the visible area in pixels.
+ */
+export function pinElement(container: PureInfiniteScrollContainer, axis: PureInfiniteScrollAxis, element: Element, offset: number) {
+    const difference = getBounds(element, axis).start - getViewportStart(container, axis) - offset;
+
+    if (difference === 0) {
+        return;
+    }
+
+    // Right-to-left content grows towards the left, the distance from the start moves the other way
+    const direction = axis === 'horizontal' && isRtl(container) ? -1 : 1;
+
+    setScrollOffset(container, axis, getScrollMetrics(container, axis).offset + difference * direction);
+}
+
+/**
+ * Scroll anchor.
+ * Records the visible items before content is inserted at the start,
+ * and keeps the first one still in the document at the same place until the layout settles.
+ */
+export class ScrollAnchor {
+    /**
+     * The container of the scrollable area, or the window.
+     */
+    private container: PureInfiniteScrollContainer;
+
+    /**
+     * The container of the content child's.
+     */
+    private contentContainer: HTMLElement;
+
+    /**
+     * The axis along which the container scrolls.
+     */
+    private axis: PureInfiniteScrollAxis;
+
+    /**
+     * Returns the items of the content, in order.
+     */
+    private getItems: () => Element[];
+
+    /**
+     * The time during which the anchor is kept in place after an insertion.
+     */
+    private settleTime: number;
+
+    /**
+     * The visible elements, the first one still in the document being the anchor.
+     */
+    private candidates: VisibleElement[] = [];
+
+    /**
+     * The observer of the content size during the settle time.
+     */
+    private resizeObserver: ResizeObserver | null = null;
+
+    /**
+     * The observer of the removed and inserted items during the settle time.
+     */
+    private mutationObserver: MutationObserver | null = null;
+
+    /**
+     * The end of the settle time.
+     */
+    private settleTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * The scroll listener recapturing the anchor when the user scrolls during the settle time.
+     */
+    private scrollListener: () => void;
+
+    /**
+     * Constructor.
+     * @param container The container of the scrollable area, or the window.
+     * @param contentContainer The container of the content child's.
+     * @param axis The axis along which the container scrolls.
+     * @param getItems Returns the items of the content, in order.
+     * @param options The options of the anchor-based scroll restoration.
+     */
+    constructor(container: PureInfiniteScrollContainer, contentContainer: HTMLElement, axis: PureInfiniteScrollAxis, getItems: () => Element[], options: PureInfiniteScrollAnchoringOptions = {}) {
+        this.container = container;
+        this.contentContainer = contentContainer;
+        this.axis = axis;
+        this.getItems = getItems;
+        this.settleTime = options.settleTime ?? 1000;
+        this.scrollListener = this.capture.bind(this);
+    }
+
+    /**
+     * Records the visible items and their offsets before content is inserted.
+     */
+    public capture() {
+        this.candidates = getVisibleElements(this.container, this.axis, this.getItems());
+    }
+
+    /**
+     * Moves the anchor back to its recorded offset.
+     */
+    public restore() {
+        const items = this.getItems();
+        const candidate = this.candidates.filter(({ element }) => items.indexOf(element) !== -1)[0];
+
+        if (candidate) {
+            pinElement(this.container, this.axis, candidate.element, candidate.offset);
+        }
+    }
+
+    /**
+     * Restores the anchor and keeps restoring it while the layout settles.
+     */
+    public pin() {
+        this.stopSettling();
+        this.restore();
+
+        if (this.settleTime <= 0) {
+            return;
+        }
+
+        if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(() => this.restore());
+            this.resizeObserver.observe(this.contentContainer);
+        }
+
+        this.mutationObserver = new MutationObserver(() => this.restore());
+        // The items may be nested in wrappers of the content container
+        this.mutationObserver.observe(this.contentContainer, { childList: true, subtree: true });
+
+        this.container.addEventListener('scroll', this.scrollListener);
+        this.settleTimeout = setTimeout(() => this.stopSettling(), this.settleTime);
+    }
+
+    /**
+     * Stops restoring the anchor.
+     */
+    public disconnect() {
+        this.stopSettling();
+        this.candidates = [];
+    }
+
+    /**
+     * Stops the settle time.
+     */
+    private stopSettling() {
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = null;
+        this.mutationObserver?.disconnect();
+        this.mutationObserver = null;
+        this.container.removeEventListener('scroll', this.scrollListener);
+
+        if (this.settleTimeout !== null) {
+            clearTimeout(this.settleTimeout);
+            this.settleTimeout = null;
+        }
+    }
+}
@@ -0,0 +1,170 @@
+import { isWindow, PureInfiniteScrollAxis, PureInfiniteScrollContainer } from "./axis";
+import type { PureInfiniteScrollEdge } from "./events";
+
+/**
+ * How the infinite scroll detects that the user reached an edge.
+ * - scroll: recomputes the geometry on every scroll event.
+ * - intersection: observes sentinel elements at both ends of the content with an IntersectionObserver.
+ */
+export type PureInfiniteScrollDetection = 'scroll' | 'intersection';
+
+/**
+ * Sentinel elements provided instead of the generated ones.
+ */
+export interface PureInfiniteScrollSentinels {
+    /**
+     * The element kept at the top (start) of the content container.
+     */
+    start?: HTMLElement;
+
+    /**
+     * The element kept at the bottom (end) of the content container.
+     */
+    end?: HTMLElement;
+}
+
+/**
+ * Attribute set on the generated sentinels.
+ */
+const SENTINEL_ATTRIBUTE = 'data-pure-infinite-scroll-sentinel';
+
+/**
+ * Sentinel observer.
+ * Keeps a sentinel element at both ends of the content container
+ * and reports when one of them comes within the threshold of the visible area.
+ */
+export class SentinelObserver {
+    /**
+     * The container of the content child's.
+     */
+    private contentContainer: HTMLElement;
+
+    /**
+     * The sentinel kept at the start of the content.
+     */
+    public start: HTMLElement;
+
+    /**
+     * The sentinel kept at the end of the content.
+     */
+    public end: HTMLElement;
+
+    /**
+     * The sentinels generated by the observer, removed on disconnect.
+     */
+    private generatedSentinels: HTMLElement[] = [];
+
+    /**
+     * The observer of the sentinels.
+     */
+    private intersectionObserver: IntersectionObserver;
+
+    /**
+     * The observer keeping the sentinels at both ends of the content.
+     */
+    private mutationObserver: MutationObserver;
+
+    /**
+     * Checks if the browser supports the IntersectionObserver.
+     * @returns boolean
+     */
+    static isSupported(): boolean {
+        return typeof IntersectionObserver !== 'undefined';
+    }
+
+    /**
+     * Constructor.
+     * @param container The container of the scrollable area used as the intersection root, or the window for the viewport.
+     * @param contentContainer The container of the content child's.
+     * @param axis The axis along which the container scrolls.
+     * @param threshold The threshold in pixels from the edges of the scrollable area.
+     * @param callback Called when a sentinel comes within the threshold of the visible area.
+     * @param sentinels Sentinel elements provided instead of the generated ones.
+     */
+    constructor(container: PureInfiniteScrollContainer, contentContainer: HTMLElement, axis: PureInfiniteScrollAxis, threshold: number, callback: (edge: PureInfiniteScrollEdge) => void, sentinels: PureInfiniteScrollSentinels = {}) {
+        this.contentContainer = contentContainer;
+        this.start = sentinels.start ?? this.createSentinel();
+        this.end = sentinels.end ?? this.createSentinel();
+
+        this.place();
+
+        // Extend the visible area by the threshold along the scroll axis
+        const rootMargin = axis === 'vertical'
+            ? `${threshold}px 0px ${threshold}px 0px`
+            : `0px ${threshold}px 0px ${threshold}px`;
+
+        this.intersectionObserver = new IntersectionObserver((entries) => {
+            entries.forEach((entry) => {
+                if (entry.isIntersecting) {
+                    callback(entry.target === this.start ? 'start' : 'end');
+                }
+            });
+        }, { root: isWindow(container) ? null : container, rootMargin });
+
+        this.intersectionObserver.observe(this.start);
+        this.intersectionObserver.observe(this.end);
+
+        // Content inserted around the sentinels pushes them away from the ends
+        this.mutationObserver = new MutationObserver(() => this.place());
+        this.mutationObserver.observe(this.contentContainer, { childList: true });
+    }
+
+    /**
+     * Returns the edge of a sentinel node.
+     * @param node The node to be checked.
+     * @returns PureInfiniteScrollEdge | null `null` when the node isn't a sentinel.
+     */
+    public getEdge(node: Node | null): PureInfiniteScrollEdge | null {
+        if (node === this.start) {
+            return 'start';
+        }
+
+        return node === this.end ? 'end' : null;
+    }
+
+    /**
+     * Moves the sentinels back to both ends of the content container if needed.
+     */
+    public place() {
+        if (this.contentContainer.firstChild !== this.start) {
+            this.contentContainer.insertBefore(this.start, this.contentContainer.firstChild);
+        }
+
+        if (this.contentContainer.lastChild !== this.end) {
+            this.contentContainer.appendChild(this.end);
+        }
+    }
+
+    /**
+     * Observes the sentinels again, so the sentinels still within the threshold are reported again.
+     */
+    public refresh() {
+        [this.start, this.end].forEach((sentinel) => {
+            this.intersectionObserver.unobserve(sentinel);
+            this.intersectionObserver.observe(sentinel);
+        });
+    }
+
+    /**
+     * Stops observing and removes the generated sentinels.
+     */
+    public disconnect() {
+        this.intersectionObserver.disconnect();
+        this.mutationObserver.disconnect();
+        this.generatedSentinels.forEach((sentinel) => sentinel.parentNode?.removeChild(sentinel));
+    }
+
+    /**
+     * Creates a sentinel element.
+     * @returns HTMLElement
+     */
+    private createSentinel(): HTMLElement {
+        const sentinel = document.createElement('div');
+        sentinel.setAttribute(SENTINEL_ATTRIBUTE, '');
+        sentinel.setAttribute('aria-hidden', 'true');
+
+        this.generatedSentinels.push(sentinel);
+
+        return sentinel;
+    }
+}
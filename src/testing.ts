@@ -0,0 +1,397 @@
+import type { PureInfiniteScrollAxis } from "./axis";
+import { getEdge, PureInfiniteScrollEdge, PureInfiniteScrollEvent, PureInfiniteScrollLoadEndDetail } from "./events";
+import { PureInfiniteScroll, PureInfiniteScrollOptions } from "./infinite-scroll";
+
+/**
+ * Options of the test harness.
+ */
+export interface PureInfiniteScrollHarnessOptions {
+    /**
+     * The container of the scrollable area. A container holding a content container is created by default.
+     */
+    container?: HTMLElement;
+
+    /**
+     * The container of the content child's, the container itself by default when the container is provided.
+     */
+    contentContainer?: HTMLElement;
+
+    /**
+     * The axis along which the container scrolls, vertical by default.
+     */
+    axis?: PureInfiniteScrollAxis;
+
+    /**
+     * The size of the visible area in pixels, 200 by default.
+     */
+    clientSize?: number;
+
+    /**
+     * The size of every item in pixels, or a function returning the size of an item. 100 by default.
+     */
+    itemSize?: number | ((element: Element) => number);
+
+    /**
+     * Checks if a child of the content container is an item taking space.
+     * By default, all the children except the sentinels and the indicators.
+     */
+    isItem?: (element: Element) => boolean;
+}
+
+/**
+ * A position to scroll to: a distance from the start in pixels, or an edge.
+ */
+export type PureInfiniteScrollHarnessPosition = number | PureInfiniteScrollEdge | 'top' | 'bottom';
+
+/**
+ * The names of the faked properties along each axis.
+ */
+const PROPERTIES = {
+    vertical: { offset: 'scrollTop', scrollSize: 'scrollHeight', clientSize: 'clientHeight', start: 'top', end: 'bottom', size: 'height' },
+    horizontal: { offset: 'scrollLeft', scrollSize: 'scrollWidth', clientSize: 'clientWidth', start: 'left', end: 'right', size: 'width' },
+};
+
+/**
+ * The layouts of the harnesses not destroyed yet, returning the faked bounds of their elements.
+ */
+const activeLayouts: Array<(element: Element) => DOMRect | null> = [];
+
+/**
+ * The native `getBoundingClientRect`, replaced while harnesses are active.
+ */
+let nativeGetBoundingClientRect: (() => DOMRect) | null = null;
+
+/**
+ * Test harness for environments without layout, such as jsdom.
+ * Fakes the scroll geometry of a container from the number of items it holds,
+ * simulates the user scrolling and waits for the loads of an infinite scroll.
+ */
+export class PureInfiniteScrollHarness<T = unknown> {
+    /**
+     * The container of the scrollable area.
+     */
+    public container: HTMLElement;
+
+    /**
+     * The container of the content child's.
+     */
+    public contentContainer: HTMLElement;
+
+    /**
+     * The infinite scroll driven by the harness, once created or attached.
+     */
+    public infiniteScroll: PureInfiniteScroll<T> | null = null;
+
+    /**
+     * The axis along which the container scrolls.
+     */
+    private axis: PureInfiniteScrollAxis;
+
+    /**
+     * The size of the visible area.
+     */
+    private clientSize: number;
+
+    /**
+     * Returns the size of an item.
+     */
+    private getItemSize: (element: Element) => number;
+
+    /**
+     * Checks if a child of the content container is an item taking space.
+     */
+    private isItem: (element: Element) => boolean;
+
+    /**
+     * The faked distance from the start.
+     */
+    private offset: number = 0;
+
+    /**
+     * Whether the container was created by the harness, and is removed on destroy.
+     */
+    private ownsContainer: boolean;
+
+    /**
+     * The id of the next item added with `addItems`.
+     */
+    private nextId: number = 1;
+
+    /**
+     * Returns the faked bounds of the elements of the harness.
+     */
+    private layout: (element: Element) => DOMRect | null = (element) => this.getRect(element);
+
+    /**
+     * Constructor.
+     * @param options The options of the harness.
+     */
+    constructor(options: PureInfiniteScrollHarnessOptions = {}) {
+        this.ownsContainer = !options.container;
+        this.container = options.container ?? document.createElement('div');
+        this.contentContainer = options.contentContainer ?? (options.container ? options.container : document.createElement('div'));
+        this.axis = options.axis ?? 'vertical';
+        this.clientSize = options.clientSize ?? 200;
+
+        const itemSize = options.itemSize ?? 100;
+        this.getItemSize = typeof itemSize === 'number' ? () => itemSize : itemSize;
+        this.isItem = options.isItem ?? ((element) => !element.hasAttribute('data-pure-infinite-scroll-sentinel') && !element.hasAttribute('data-pure-infinite-scroll-indicator'));
+
+        if (this.ownsContainer) {
+            this.container.appendChild(this.contentContainer);
+            document.body.appendChild(this.container);
+        }
+
+        this.fakeGeometry();
+
+        // Lay out the items of the content containers, the other elements keep their own geometry.
+        // The native function is replaced once for all the active harnesses, and restored with the last one.
+        if (!nativeGetBoundingClientRect) {
+            const native = Element.prototype.getBoundingClientRect;
+            nativeGetBoundingClientRect = native;
+
+            Element.prototype.getBoundingClientRect = function (this: Element) {
+                for (let i = 0; i < activeLayouts.length; i++) {
+                    const rect = activeLayouts[i](this);
+
+                    if (rect) {
+                        return rect;
+                    }
+                }
+
+                return native.call(this);
+            };
+        }
+
+        activeLayouts.push(this.layout);
+    }
+
+    /**
+     * The size of the content in pixels, derived from the items.
+     */
+    get scrollSize(): number {
+        return Math.max(this.items.reduce((size, item) => size + this.getItemSize(item), 0), this.clientSize);
+    }
+
+    /**
+     * The distance from the start in pixels.
+     */
+    get scrollOffset(): number {
+        return this.offset;
+    }
+
+    /**
+     * The items of the content container, in order.
+     */
+    get items(): Element[] {
+        return Array.prototype.filter.call(this.contentContainer.children, this.isItem) as Element[];
+    }
+
+    /**
+     * Creates an infinite scroll on the container, driven by the harness.
+     * @param threshold The threshold in pixels from the edges of the scrollable area.
+     * @param handleEvents The events to be handled.
+     * @param options Additional options.
+     * @returns PureInfiniteScroll
+     */
+    public create(threshold?: number, handleEvents?: PureInfiniteScrollEvent[], options: PureInfiniteScrollOptions<T> = {}): PureInfiniteScroll<T> {
+        const infiniteScroll = new PureInfiniteScroll<T>(this.container, this.contentContainer, threshold, handleEvents, { axis: this.axis, ...options });
+        this.attach(infiniteScroll);
+
+        return infiniteScroll;
+    }
+
+    /**
+     * Drives an infinite scroll created on the container.
+     * @param infiniteScroll The infinite scroll.
+     */
+    public attach(infiniteScroll: PureInfiniteScroll<T>) {
+        this.infiniteScroll = infiniteScroll;
+    }
+
+    /**
+     * Adds items taking the item size at an edge of the content.
+     * @param count The number of items.
+     * @param edge The edge of the content, the end by default.
+     * @returns HTMLElement[] The added items, with a `data-id` attribute.
+     */
+    public addItems(count: number, edge: PureInfiniteScrollEdge = 'end'): HTMLElement[] {
+        const items = this.items;
+        const added: HTMLElement[] = [];
+        const fragment = document.createDocumentFragment();
+
+        for (let i = 0; i < count; i++) {
+            const item = document.createElement('div');
+            const id = String(this.nextId++);
+
+            item.setAttribute('data-id', id);
+            item.textContent = `Item ${id}`;
+            fragment.appendChild(item);
+            added.push(item);
+        }
+
+        // Insert next to the existing items, in between the sentinels and the indicators
+        const reference = edge === 'start'
+            ? items[0] ?? null
+            : items.length > 0 ? items[items.length - 1].nextSibling : null;
+
+        this.contentContainer.insertBefore(fragment, reference);
+
+        return added;
+    }
+
+    /**
+     * Simulates the user scrolling to a position, dispatching a scroll event.
+     * @param position A distance from the start in pixels, or an edge.
+     */
+    public scrollTo(position: PureInfiniteScrollHarnessPosition) {
+        if (position === 'start' || position === 'top') {
+            this.setOffset(0);
+        } else if (position === 'end' || position === 'bottom') {
+            this.setOffset(this.scrollSize);
+        } else {
+            this.setOffset(position);
+        }
+
+        this.container.dispatchEvent(new Event('scroll'));
+    }
+
+    /**
+     * Simulates the user scrolling by a distance, dispatching a scroll event.
+     * @param distance The distance in pixels, negative towards the start.
+     */
+    public scrollBy(distance: number) {
+        this.scrollTo(this.offset + distance);
+    }
+
+    /**
+     * Waits for the next load at an edge to end.
+     * @param edge The edge of the content, "top"/"bottom" being the start/end.
+     * @param timeout The time in milliseconds after which the promise rejects, 1000 by default.
+     * @returns Promise<PureInfiniteScrollLoadEndDetail> Resolves with the detail of "loadEnd".
+     */
+    public waitForLoad(edge: PureInfiniteScrollEdge | 'top' | 'bottom', timeout: number = 1000): Promise<PureInfiniteScrollLoadEndDetail> {
+        const infiniteScroll = this.infiniteScroll;
+
+        if (!infiniteScroll) {
+            return Promise.reject(new Error('PureInfiniteScroll: the harness has no infinite scroll, create or attach one first.'));
+        }
+
+        const expectedEdge = edge === 'top' || edge === 'start' ? 'start' : 'end';
+
+        return new Promise((resolve, reject) => {
+            const listener = (detail: PureInfiniteScrollLoadEndDetail) => {
+                if (getEdge(detail.direction) !== expectedEdge) {
+                    return;
+                }
+
+                clearTimeout(timer);
+                infiniteScroll.off(PureInfiniteScrollEvent.LoadEnd, listener);
+                resolve(detail);
+            };
+
+            const timer = setTimeout(() => {
+                infiniteScroll.off(PureInfiniteScrollEvent.LoadEnd, listener);
+                reject(new Error(`PureInfiniteScroll: no load ended at the ${edge} within ${timeout}ms.`));
+            }, timeout);
+
+            infiniteScroll.on(PureInfiniteScrollEvent.LoadEnd, listener);
+        });
+    }
+
+    /**
+     * Waits for the pending promise callbacks and mutation observers.
+     * @returns Promise<void>
+     */
+    public async flush(): Promise<void> {
+        for (let i = 0; i < 5; i++) {
+            await Promise.resolve();
+        }
+    }
+
+    /**
+     * Destroys the infinite scroll and restores the geometry of the elements.
+     */
+    public destroy() {
+        this.infiniteScroll?.destroy();
+        this.infiniteScroll = null;
+
+        const index = activeLayouts.indexOf(this.layout);
+
+        if (index !== -1) {
+            activeLayouts.splice(index, 1);
+        }
+
+        if (activeLayouts.length === 0 && nativeGetBoundingClientRect) {
+            Element.prototype.getBoundingClientRect = nativeGetBoundingClientRect;
+            nativeGetBoundingClientRect = null;
+        }
+
+        const { offset, scrollSize, clientSize } = PROPERTIES[this.axis];
+        [offset, scrollSize, clientSize].forEach((property) => Reflect.deleteProperty(this.container, property));
+
+        if (this.ownsContainer) {
+            this.container.parentNode?.removeChild(this.container);
+        }
+    }
+
+    /**
+     * Fakes the scroll properties of the container along the axis.
+     */
+    private fakeGeometry() {
+        const { offset, scrollSize, clientSize } = PROPERTIES[this.axis];
+
+        Object.defineProperty(this.container, offset, {
+            configurable: true,
+            get: () => this.offset,
+            set: (value: number) => this.setOffset(value),
+        });
+        Object.defineProperty(this.container, scrollSize, {
+            configurable: true,
+            get: () => this.scrollSize,
+        });
+        Object.defineProperty(this.container, clientSize, {
+            configurable: true,
+            get: () => this.clientSize,
+        });
+    }
+
+    /**
+     * Sets the distance from the start, within the scrollable range.
+     * @param offset The distance in pixels.
+     */
+    private setOffset(offset: number) {
+        this.offset = Math.max(0, Math.min(offset, this.scrollSize - this.clientSize));
+    }
+
+    /**
+     * Returns the faked bounds of the container and of the items.
+     * @param element The element.
+     * @returns DOMRect | null `null` for the other elements.
+     */
+    private getRect(element: Element): DOMRect | null {
+        let start: number;
+        let size: number;
+
+        if (element === this.container) {
+            start = 0;
+            size = this.clientSize;
+        } else if (element.parentNode === this.contentContainer && this.isItem(element)) {
+            const items = this.items;
+            const index = items.indexOf(element);
+
+            start = items.slice(0, index).reduce((offset, item) => offset + this.getItemSize(item), 0) - this.offset;
+            size = this.getItemSize(element);
+        } else {
+            return null;
+        }
+
+        const names = PROPERTIES[this.axis];
+        const rect: { [name: string]: number } = { top: 0, left: 0, bottom: 0, right: 0, width: 0, height: 0 };
+        rect[names.start] = start;
+        rect[names.end] = start + size;
+        rect[names.size] = size;
+
+        return { ...rect, x: rect.left, y: rect.top, toJSON: () => rect } as DOMRect;
+    }
+}
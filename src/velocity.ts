@@ -0,0 +1,72 @@
+/**
+ * A scroll position sampled at a time.
+ */
+interface VelocitySample {
+    offset: number;
+    time: number;
+}
+
+/**
+ * Velocity tracker.
+ * Samples the scroll position and reports the recent velocity along the scroll axis.
+ */
+export class VelocityTracker {
+    /**
+     * The samples of the recent scroll positions, oldest first.
+     */
+    private samples: VelocitySample[] = [];
+
+    /**
+     * The time in milliseconds over which the velocity is measured.
+     */
+    private window: number;
+
+    /**
+     * Constructor.
+     * @param window The time in milliseconds over which the velocity is measured.
+     */
+    constructor(window: number = 100) {
+        this.window = window;
+    }
+
+    /**
+     * Records a scroll position.
+     * @param offset The distance from the start of the scrollable area in pixels.
+     * @param time The time of the sample in milliseconds.
+     */
+    public record(offset: number, time: number = Date.now()) {
+        this.samples.push({ offset, time });
+
+        // Keep a single sample older than the window, as the start of the measure
+        while (this.samples.length > 2 && time - this.samples[1].time >= this.window) {
+            this.samples.shift();
+        }
+    }
+
+    /**
+     * Returns the recent velocity, positive towards the end.
+     * @param time The current time in milliseconds.
+     * @returns number The velocity in pixels per second, 0 once the scrolling stopped for the window.
+     */
+    public getVelocity(time: number = Date.now()): number {
+        if (this.samples.length < 2) {
+            return 0;
+        }
+
+        const first = this.samples[0];
+        const last = this.samples[this.samples.length - 1];
+
+        if (time - last.time >= this.window || last.time === first.time) {
+            return 0;
+        }
+
+        return (last.offset - first.offset) / (last.time - first.time) * 1000;
+    }
+
+    /**
+     * Forgets the recorded positions.
+     */
+    public clear() {
+        this.samples = [];
+    }
+}
@@ -0,0 +1,413 @@
+import { getScrollMetrics, isWindow, PureInfiniteScrollContainer, setScrollOffset } from "./axis";
+import { PureInfiniteScrollRender, toNodes } from "./loader";
+
+/**
+ * Options of the virtual mode.
+ */
+export interface PureInfiniteScrollVirtualOptions {
+    /**
+     * The fixed height of every item in pixels.
+     * When omitted, the items are measured with a ResizeObserver.
+     */
+    itemHeight?: number;
+
+    /**
+     * The height in pixels assumed for items which are not measured yet.
+     */
+    estimatedItemHeight?: number;
+
+    /**
+     * The number of items rendered beyond each side of the visible area.
+     */
+    overscan?: number;
+}
+
+/**
+ * The range of rendered items, `end` excluded.
+ */
+export interface VirtualRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Virtual list.
+ * Keeps only the visible items plus an overscan buffer in the content container
+ * and replaces the other items with padding.
+ */
+export class VirtualList<T> {
+    /**
+     * The container of the scrollable area, or the window.
+     */
+    private container: PureInfiniteScrollContainer;
+
+    /**
+     * The container of the rendered items.
+     */
+    private contentContainer: HTMLElement;
+
+    /**
+     * The render function of the items.
+     */
+    private render: PureInfiniteScrollRender<T>;
+
+    /**
+     * The fixed height of every item, if any.
+     */
+    private itemHeight: number | null;
+
+    /**
+     * The height assumed for items which are not measured yet.
+     */
+    private estimatedItemHeight: number;
+
+    /**
+     * The number of items rendered beyond each side of the visible area.
+     */
+    private overscan: number;
+
+    /**
+     * All the items of the list.
+     */
+    private items: Array<T | Node> = [];
+
+    /**
+     * The heights of the items, estimated or measured.
+     * Only used when the items don't have a fixed height.
+     */
+    private heights: number[] = [];
+
+    /**
+     * The cached offsets of the items, `null` when they need to be recomputed.
+     */
+    private offsets: number[] | null = null;
+
+    /**
+     * The rendered nodes by item index.
+     */
+    private renderedNodes: Map<number, Node> = new Map();
+
+    /**
+     * The item indexes by rendered element, used to map measurements back to the items.
+     */
+    private renderedIndexes: Map<Element, number> = new Map();
+
+    /**
+     * The observer measuring the rendered items.
+     */
+    private resizeObserver: ResizeObserver | null = null;
+
+    /**
+     * The range of rendered items.
+     */
+    public range: VirtualRange = { start: 0, end: 0 };
+
+    /**
+     * Constructor.
+     * @param container The container of the scrollable area, or the window.
+     * @param contentContainer The container of the rendered items.
+     * @param render The render function of the items.
+     * @param options The options of the virtual mode.
+     */
+    constructor(container: PureInfiniteScrollContainer, contentContainer: HTMLElement, render: PureInfiniteScrollRender<T>, options: PureInfiniteScrollVirtualOptions) {
+        this.container = container;
+        this.contentContainer = contentContainer;
+        this.render = render;
+        this.itemHeight = options.itemHeight ?? null;
+        this.estimatedItemHeight = options.estimatedItemHeight ?? options.itemHeight ?? 50;
+        this.overscan = options.overscan ?? 5;
+
+        // Measure the items only when they don't have a fixed height
+        if (this.itemHeight === null && typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(this.handleResize.bind(this));
+        }
+    }
+
+    /**
+     * The number of items in the list.
+     */
+    get length(): number {
+        return this.items.length;
+    }
+
+    /**
+     * The total height of the items in pixels.
+     */
+    get totalHeight(): number {
+        return this.getOffset(this.items.length);
+    }
+
+    /**
+     * Checks if the rendered range reaches the first item.
+     * @returns boolean
+     */
+    get isNearStart(): boolean {
+        return this.range.start === 0;
+    }
+
+    /**
+     * Checks if the rendered range reaches the last item.
+     * @returns boolean
+     */
+    get isNearEnd(): boolean {
+        return this.range.end >= this.items.length;
+    }
+
+    /**
+     * Appends items at the end of the list.
+     * @param items The items to be appended.
+     */
+    public append(items: Array<T | Node>) {
+        this.items.push(...items);
+        this.heights.push(...items.map(() => this.estimatedItemHeight));
+        this.offsets = null;
+
+        this.update(true);
+    }
+
+    /**
+     * Prepends items at the start of the list.
+     * @param items The items to be prepended.
+     * @returns number The estimated height of the prepended items, to be compensated by the caller.
+     */
+    public prepend(items: Array<T | Node>): number {
+        const count = items.length;
+
+        this.items.unshift(...items);
+        this.heights.unshift(...items.map(() => this.estimatedItemHeight));
+        this.offsets = null;
+
+        // Shift the rendered nodes, their items moved by the number of prepended items
+        const renderedNodes = new Map<number, Node>();
+        this.renderedNodes.forEach((node, index) => renderedNodes.set(index + count, node));
+        this.renderedNodes = renderedNodes;
+        this.renderedIndexes.forEach((index, element) => this.renderedIndexes.set(element, index + count));
+        this.range = { start: this.range.start + count, end: this.range.end + count };
+
+        return this.getOffset(count);
+    }
+
+    /**
+     * Returns the offset of an item from the start of the list in pixels.
+     * @param index The index of the item.
+     * @returns number
+     */
+    public getOffset(index: number): number {
+        if (this.itemHeight !== null) {
+            return index * this.itemHeight;
+        }
+
+        if (!this.offsets) {
+            this.offsets = [0];
+            this.heights.forEach((height, i) => this.offsets!.push(this.offsets![i] + height));
+        }
+
+        return this.offsets[index];
+    }
+
+    /**
+     * Returns the index of the item at an offset from the start of the list.
+     * @param offset The offset in pixels.
+     * @returns number
+     */
+    public getIndexAt(offset: number): number {
+        if (this.itemHeight !== null) {
+            return this.itemHeight > 0 ? Math.floor(offset / this.itemHeight) : 0;
+        }
+
+        // Binary search of the last item starting before the offset
+        let low = 0;
+        let high = this.items.length - 1;
+
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+
+            if (this.getOffset(middle) <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        return Math.max(low, 0);
+    }
+
+    /**
+     * Renders the items of the visible area.
+     * @param force Whether to render even if the range didn't change.
+     */
+    public update(force: boolean = false) {
+        const range = this.computeRange();
+
+        if (!force && range.start === this.range.start && range.end === this.range.end) {
+            return;
+        }
+
+        // Reuse the nodes of the items which stay rendered
+        const renderedNodes = new Map<number, Node>();
+        for (let index = range.start; index < range.end; index++) {
+            renderedNodes.set(index, this.renderedNodes.get(index) ?? this.renderItem(index));
+        }
+
+        // Remove the nodes of the items which left the range
+        this.renderedNodes.forEach((node, index) => {
+            if (renderedNodes.get(index) !== node) {
+                this.unobserve(node);
+                node.parentNode?.removeChild(node);
+            }
+        });
+
+        // Insert the nodes in order, moving only the misplaced ones
+        let nextNode: Node | null = null;
+        for (let index = range.end - 1; index >= range.start; index--) {
+            const node = renderedNodes.get(index)!;
+
+            if (node.parentNode !== this.contentContainer || node.nextSibling !== nextNode) {
+                this.contentContainer.insertBefore(node, nextNode);
+            }
+
+            this.observe(node, index);
+            nextNode = node;
+        }
+
+        this.renderedNodes = renderedNodes;
+        this.range = range;
+
+        // Replace the items which are not rendered with padding
+        this.contentContainer.style.paddingTop = `${this.getOffset(range.start)}px`;
+        this.contentContainer.style.paddingBottom = `${this.totalHeight - this.getOffset(range.end)}px`;
+    }
+
+    /**
+     * Stops measuring the rendered items.
+     */
+    public disconnect() {
+        this.resizeObserver?.disconnect();
+        this.renderedIndexes.clear();
+    }
+
+    /**
+     * Computes the range of items to be rendered.
+     * @returns VirtualRange
+     */
+    private computeRange(): VirtualRange {
+        if (this.items.length === 0) {
+            return { start: 0, end: 0 };
+        }
+
+        // The visible area relative to the start of the list
+        const { offset, clientSize } = getScrollMetrics(this.container, 'vertical');
+        const viewportTop = Math.max(offset - this.getListOffset(), 0);
+        const viewportBottom = viewportTop + clientSize;
+
+        return {
+            start: Math.max(this.getIndexAt(viewportTop) - this.overscan, 0),
+            end: Math.min(this.getIndexAt(viewportBottom) + 1 + this.overscan, this.items.length),
+        };
+    }
+
+    /**
+     * Returns the offset of the content container from the start of the scrollable area.
+     * @returns number
+     */
+    private getListOffset(): number {
+        let offset = 0;
+        let element: HTMLElement | null = this.contentContainer;
+
+        // Sum the offsets up to the container, or up to the document for the window
+        while (element && element !== this.container) {
+            offset += element.offsetTop;
+            element = element.offsetParent as HTMLElement | null;
+        }
+
+        // The container isn't positioned, the offsets are relative to a common ancestor
+        if (!element && !isWindow(this.container)) {
+            for (element = this.container; element; element = element.offsetParent as HTMLElement | null) {
+                offset -= element.offsetTop;
+            }
+
+            offset -= this.container.clientTop;
+        }
+
+        return offset;
+    }
+
+    /**
+     * Renders an item.
+     * @param index The index of the item.
+     * @returns Node
+     */
+    private renderItem(index: number): Node {
+        return toNodes([this.items[index]], this.render)[0];
+    }
+
+    /**
+     * Starts measuring a rendered node.
+     * @param node The rendered node.
+     * @param index The index of its item.
+     */
+    private observe(node: Node, index: number) {
+        if (!this.resizeObserver || !(node instanceof Element)) {
+            return;
+        }
+
+        if (!this.renderedIndexes.has(node)) {
+            this.resizeObserver.observe(node);
+        }
+
+        this.renderedIndexes.set(node, index);
+    }
+
+    /**
+     * Stops measuring a node.
+     * @param node The node leaving the range.
+     */
+    private unobserve(node: Node) {
+        if (!this.resizeObserver || !(node instanceof Element)) {
+            return;
+        }
+
+        this.resizeObserver.unobserve(node);
+        this.renderedIndexes.delete(node);
+    }
+
+    /**
+     * Handles the measurements of the rendered items.
+     * @param entries The resize observer entries.
+     */
+    private handleResize(entries: ResizeObserverEntry[]) {
+        const { offset } = getScrollMetrics(this.container, 'vertical');
+        const firstVisibleIndex = this.getIndexAt(offset - this.getListOffset());
+        let heightDifferenceAbove = 0;
+        let changed = false;
+
+        entries.forEach((entry) => {
+            const index = this.renderedIndexes.get(entry.target);
+            const height = (entry.target as HTMLElement).offsetHeight;
+
+            if (index === undefined || height === this.heights[index]) {
+                return;
+            }
+
+            // Items above the visible area would move the content, compensate them
+            if (index < firstVisibleIndex) {
+                heightDifferenceAbove += height - this.heights[index];
+            }
+
+            this.heights[index] = height;
+            changed = true;
+        });
+
+        if (!changed) {
+            return;
+        }
+
+        this.offsets = null;
+
+        if (heightDifferenceAbove !== 0) {
+            setScrollOffset(this.container, 'vertical', offset + heightDifferenceAbove);
+        }
+
+        this.update(true);
+    }
+}
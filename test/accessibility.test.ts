@@ -0,0 +1,132 @@
+import { FeedAccessibility } from "../src/accessibility";
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+describe('FeedAccessibility', () => {
+    let feed: HTMLElement;
+    let accessibility: FeedAccessibility;
+
+    const articles = () => Array.from(feed.children) as HTMLElement[];
+
+    const addArticle = (prepend: boolean = false) => {
+        const article = document.createElement('div');
+        feed.insertBefore(article, prepend ? feed.firstChild : null);
+        return article;
+    };
+
+    const liveRegion = () => document.querySelector('[aria-live="polite"]');
+
+    beforeEach(() => {
+        feed = document.createElement('div');
+        document.body.appendChild(feed);
+        addArticle();
+        addArticle();
+    });
+
+    afterEach(() => {
+        accessibility.disconnect();
+        document.body.removeChild(feed);
+    });
+
+    it('should apply the feed pattern and restore the feed on disconnect', () => {
+        feed.setAttribute('role', 'list');
+        accessibility = new FeedAccessibility(feed, articles, { label: 'News' });
+
+        expect(feed.getAttribute('role')).toBe('feed');
+        expect(feed.getAttribute('aria-busy')).toBe('false');
+        expect(feed.getAttribute('aria-label')).toBe('News');
+        expect(liveRegion()).not.toBeNull();
+
+        accessibility.disconnect();
+
+        expect(feed.getAttribute('role')).toBe('list');
+        expect(feed.hasAttribute('aria-busy')).toBe(false);
+        expect(feed.hasAttribute('aria-label')).toBe(false);
+        expect(liveRegion()).toBeNull();
+    });
+
+    it('should number the articles and keep the positions when prepending', () => {
+        accessibility = new FeedAccessibility(feed, articles);
+
+        expect(accessibility.update(false)).toBe(2);
+        expect(articles().map((article) => article.getAttribute('aria-posinset'))).toEqual(['1', '2']);
+        expect(articles()[0].getAttribute('aria-setsize')).toBe('-1');
+        expect(articles()[0].getAttribute('role')).toBe('article');
+        expect(articles()[0].getAttribute('tabindex')).toBe('0');
+
+        // Pruned from the start, the remaining article keeps its position
+        feed.removeChild(feed.firstChild!);
+        addArticle();
+        expect(accessibility.update(true)).toBe(1);
+        expect(articles().map((article) => article.getAttribute('aria-posinset'))).toEqual(['2', '3']);
+        expect(articles()[0].getAttribute('aria-setsize')).toBe('3');
+
+        addArticle(true);
+        accessibility.update(true);
+        expect(articles().map((article) => article.getAttribute('aria-posinset'))).toEqual(['1', '2', '3']);
+    });
+
+    it('should use the known set size', () => {
+        accessibility = new FeedAccessibility(feed, articles, { setSize: 100 });
+        accessibility.update(false);
+
+        expect(articles()[1].getAttribute('aria-setsize')).toBe('100');
+    });
+
+    it('should announce the loads and the end', () => {
+        accessibility = new FeedAccessibility(feed, articles, { messages: { loaded: (count) => `${count} new posts` } });
+
+        accessibility.announce(0, false);
+        expect(liveRegion()!.textContent).toBe('');
+
+        accessibility.announce(3, true);
+        expect(liveRegion()!.textContent).toBe('3 new posts End of the list');
+    });
+
+    it('should move the focus between the articles with Page Down and Page Up', () => {
+        accessibility = new FeedAccessibility(feed, articles);
+        accessibility.update(false);
+        const [first, second] = articles();
+
+        first.focus();
+        const pageDown = new KeyboardEvent('keydown', { key: 'PageDown', bubbles: true, cancelable: true });
+        first.dispatchEvent(pageDown);
+
+        expect(document.activeElement).toBe(second);
+        expect(pageDown.defaultPrevented).toBe(true);
+
+        second.dispatchEvent(new KeyboardEvent('keydown', { key: 'PageUp', bubbles: true }));
+        expect(document.activeElement).toBe(first);
+    });
+
+    it('should move the focus out of removed articles', () => {
+        accessibility = new FeedAccessibility(feed, articles);
+        accessibility.update(false);
+        const [first, second] = articles();
+
+        first.focus();
+        accessibility.releaseFocus([first]);
+
+        expect(document.activeElement).toBe(second);
+    });
+
+    it('should move the focus out of removed articles in a shadow root', () => {
+        const host = document.createElement('div');
+        const shadowRoot = host.attachShadow({ mode: 'open' });
+        document.body.appendChild(host);
+        document.body.removeChild(feed);
+        shadowRoot.appendChild(feed);
+
+        accessibility = new FeedAccessibility(feed, articles);
+        accessibility.update(false);
+        const [first, second] = articles();
+
+        first.focus();
+        accessibility.releaseFocus([first]);
+
+        expect(shadowRoot.activeElement).toBe(second);
+
+        // Keep the feed in the document for the cleanup
+        document.body.appendChild(feed);
+        document.body.removeChild(host);
+    });
+});
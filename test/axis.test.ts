@@ -0,0 +1,98 @@
+import { denormalizeScrollLeft, getScrollMetrics, isWindow, normalizeScrollLeft, resolveScrollContainer, setScrollOffset } from "../src/axis";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('Axis', () => {
+    let container: HTMLElement;
+
+    beforeEach(() => {
+        container = document.createElement('div');
+
+        Object.defineProperty(container, 'clientHeight', { value: 200 });
+        Object.defineProperty(container, 'scrollHeight', { value: 1000 });
+        Object.defineProperty(container, 'clientWidth', { value: 300 });
+        Object.defineProperty(container, 'scrollWidth', { value: 1500 });
+    });
+
+    describe('getScrollMetrics', () => {
+        it('should read the vertical geometry', () => {
+            container.scrollTop = 100;
+
+            expect(getScrollMetrics(container, 'vertical')).toEqual({ offset: 100, scrollSize: 1000, clientSize: 200 });
+        });
+
+        it('should read the horizontal geometry', () => {
+            container.scrollLeft = 400;
+
+            expect(getScrollMetrics(container, 'horizontal')).toEqual({ offset: 400, scrollSize: 1500, clientSize: 300 });
+        });
+    });
+
+    describe('setScrollOffset', () => {
+        it('should set scrollTop on the vertical axis', () => {
+            setScrollOffset(container, 'vertical', 150);
+
+            expect(container.scrollTop).toBe(150);
+        });
+
+        it('should set scrollLeft on the horizontal axis', () => {
+            setScrollOffset(container, 'horizontal', 250);
+
+            expect(container.scrollLeft).toBe(250);
+        });
+    });
+
+    describe('Right-to-left normalization', () => {
+        it('should keep scrollLeft as is in left-to-right documents', () => {
+            expect(normalizeScrollLeft(100, 1200, null)).toBe(100);
+            expect(denormalizeScrollLeft(100, 1200, null)).toBe(100);
+        });
+
+        it('should negate the negative scroll type', () => {
+            expect(normalizeScrollLeft(-100, 1200, 'negative')).toBe(100);
+            expect(denormalizeScrollLeft(100, 1200, 'negative')).toBe(-100);
+        });
+
+        it('should keep the reverse scroll type as is', () => {
+            expect(normalizeScrollLeft(100, 1200, 'reverse')).toBe(100);
+            expect(denormalizeScrollLeft(100, 1200, 'reverse')).toBe(100);
+        });
+
+        it('should mirror the default scroll type', () => {
+            expect(normalizeScrollLeft(1200, 1200, 'default')).toBe(0);
+            expect(normalizeScrollLeft(1100, 1200, 'default')).toBe(100);
+            expect(denormalizeScrollLeft(100, 1200, 'default')).toBe(1100);
+        });
+    });
+
+    describe('Window', () => {
+        beforeEach(() => {
+            Object.defineProperty(window, 'scrollY', { configurable: true, value: 300 });
+            Object.defineProperty(document.documentElement, 'scrollHeight', { configurable: true, value: 5000 });
+        });
+
+        afterEach(() => {
+            delete (window as { scrollY?: number }).scrollY;
+            delete (document.documentElement as { scrollHeight?: number }).scrollHeight;
+            vi.restoreAllMocks();
+        });
+
+        it('should resolve the scrolling element of the document to the window', () => {
+            expect(isWindow(window)).toBe(true);
+            expect(isWindow(container)).toBe(false);
+            expect(resolveScrollContainer(document.documentElement)).toBe(window);
+            expect(resolveScrollContainer(container)).toBe(container);
+        });
+
+        it('should read the geometry of the window', () => {
+            expect(getScrollMetrics(window, 'vertical')).toEqual({ offset: 300, scrollSize: 5000, clientSize: window.innerHeight });
+        });
+
+        it('should scroll the window', () => {
+            const scrollTo = vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+
+            setScrollOffset(window, 'vertical', 800);
+
+            expect(scrollTo).toHaveBeenCalledWith(window.scrollX, 800);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { PageCache, PureInfiniteScrollMemoryStorage, PureInfiniteScrollSessionStorage } from "../src/cache";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('PageCache', () => {
+    let storage: PureInfiniteScrollMemoryStorage;
+
+    beforeEach(() => {
+        storage = new PureInfiniteScrollMemoryStorage();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should return the cached pages by edge, page and cursor', () => {
+        const cache = new PageCache<number>({ id: 'list', storage });
+
+        cache.set('end', 2, null, { items: [1, 2], hasMore: true });
+        cache.set('end', 3, 'abc', { items: [3], cursor: 'def' });
+
+        expect(cache.get('end', 2, null)).toEqual({ result: { items: [1, 2], cursor: undefined, hasMore: true }, isStale: false });
+        expect(cache.get('end', 3, 'abc')).toEqual({ result: { items: [3], cursor: 'def', hasMore: undefined }, isStale: false });
+        expect(cache.get('end', 3, null)).toBeNull();
+        expect(cache.get('start', 2, null)).toBeNull();
+    });
+
+    it('should share the pages between the caches with the same id', () => {
+        new PageCache<number>({ id: 'list', storage }).set('end', 1, null, { items: [1] });
+
+        expect(new PageCache<number>({ id: 'list', storage }).get('end', 1, null)?.result.items).toEqual([1]);
+        expect(new PageCache<number>({ id: 'other', storage }).get('end', 1, null)).toBeNull();
+    });
+
+    it('should drop the expired pages', () => {
+        vi.useFakeTimers();
+        const cache = new PageCache<number>({ id: 'list', storage, ttl: 1000 });
+        cache.set('end', 1, null, { items: [1] });
+
+        vi.advanceTimersByTime(1000);
+
+        expect(cache.get('end', 1, null)).toBeNull();
+        expect(storage.get('list:end:page:1')).toBeNull();
+    });
+
+    it('should return the expired pages as stale with stale-while-revalidate', () => {
+        vi.useFakeTimers();
+        const cache = new PageCache<number>({ id: 'list', storage, ttl: 1000, staleWhileRevalidate: true });
+        cache.set('end', 1, null, { items: [1] });
+
+        vi.advanceTimersByTime(999);
+        expect(cache.get('end', 1, null)?.isStale).toBe(false);
+
+        vi.advanceTimersByTime(1);
+        expect(cache.get('end', 1, null)?.isStale).toBe(true);
+    });
+
+    it('should not cache the pages holding DOM nodes', () => {
+        const cache = new PageCache<number>({ id: 'list', storage });
+        cache.set('end', 1, null, { items: [1, document.createElement('div')] });
+
+        expect(cache.get('end', 1, null)).toBeNull();
+    });
+});
+
+describe('PureInfiniteScrollSessionStorage', () => {
+    afterEach(() => {
+        sessionStorage.clear();
+    });
+
+    it('should store the entries as JSON under a prefix', () => {
+        const storage = new PureInfiniteScrollSessionStorage('cache:');
+        storage.set('list:page:1', { items: [{ id: 1 }], time: 10 });
+
+        expect(JSON.parse(sessionStorage.getItem('cache:list:page:1')!)).toEqual({ items: [{ id: 1 }], time: 10 });
+        expect(storage.get('list:page:1')).toEqual({ items: [{ id: 1 }], time: 10 });
+
+        storage.delete('list:page:1');
+
+        expect(storage.get('list:end:page:1')).toBeNull();
+    });
+
+    it('should ignore the invalid entries and the failed writes', () => {
+        const storage = new PureInfiniteScrollSessionStorage();
+        sessionStorage.setItem('pureInfiniteScroll:invalid', '{');
+
+        expect(storage.get('invalid')).toBeNull();
+
+        const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+            throw new Error('QuotaExceededError');
+        });
+
+        expect(() => storage.set('list:page:1', { items: [], time: 0 })).not.toThrow();
+
+        setItem.mockRestore();
+    });
+});
@@ -0,0 +1,138 @@
+import { ChatFollower } from "../src/chat";
+import { ContentTracker } from "../src/content";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('ChatFollower', () => {
+    let container: HTMLElement;
+    let callbacks: { onNewContent: ReturnType<typeof vi.fn>, onUnreadCount: ReturnType<typeof vi.fn> };
+    let follower: ChatFollower;
+    let scrollHeight: number;
+
+    const flush = async () => {
+        for (let i = 0; i < 5; i++) {
+            await Promise.resolve();
+        }
+    };
+
+    const addMessage = (prepend: boolean = false) => {
+        container.insertBefore(document.createElement('p'), prepend ? container.firstChild : null);
+        scrollHeight += 100;
+    };
+
+    const scrollTo = (scrollTop: number) => {
+        container.scrollTop = scrollTop;
+        container.dispatchEvent(new Event('scroll'));
+    };
+
+    const isAuxiliary = (node: Node) => (node as Element).hasAttribute('data-sentinel');
+
+    const createFollower = (options = {}, tracker = new ContentTracker(container, isAuxiliary)) => new ChatFollower(container, tracker, 'vertical', options, callbacks);
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        container.appendChild(document.createElement('p'));
+        document.body.appendChild(container);
+
+        Object.defineProperty(container, 'clientHeight', { value: 200 });
+        scrollHeight = 1000;
+        Object.defineProperty(container, 'scrollHeight', { get: () => scrollHeight });
+
+        callbacks = { onNewContent: vi.fn(), onUnreadCount: vi.fn() };
+    });
+
+    afterEach(() => {
+        follower.disconnect();
+        document.body.removeChild(container);
+    });
+
+    it('should start scrolled to the end', () => {
+        follower = createFollower();
+
+        expect(container.scrollTop).toBe(1000);
+        expect(follower.isStuck).toBe(true);
+    });
+
+    it('should not move the view without the start at the end', () => {
+        follower = createFollower({ startAtEnd: false });
+
+        expect(container.scrollTop).toBe(0);
+        expect(follower.isStuck).toBe(false);
+    });
+
+    it('should follow the appended content while at the end', async () => {
+        follower = createFollower();
+
+        addMessage();
+        await flush();
+
+        expect(container.scrollTop).toBe(1100);
+        expect(callbacks.onNewContent).not.toHaveBeenCalled();
+    });
+
+    it('should count the content appended away from the end', async () => {
+        follower = createFollower();
+        scrollTo(300);
+
+        addMessage();
+        addMessage();
+        await flush();
+
+        expect(container.scrollTop).toBe(300);
+        expect(follower.unreadCount).toBe(2);
+        expect(callbacks.onNewContent).toHaveBeenCalledWith(2);
+        expect(callbacks.onUnreadCount).toHaveBeenCalledWith(2);
+    });
+
+    it('should not count the prepended content and the auxiliary nodes', async () => {
+        follower = createFollower();
+        scrollTo(300);
+
+        addMessage(true);
+        const sentinel = document.createElement('div');
+        sentinel.setAttribute('data-sentinel', '');
+        container.appendChild(sentinel);
+        await flush();
+
+        expect(follower.unreadCount).toBe(0);
+        expect(callbacks.onNewContent).not.toHaveBeenCalled();
+    });
+
+    it('should count the messages nested in the subtree', async () => {
+        const group = container.appendChild(document.createElement('section'));
+        group.appendChild(document.createElement('p')).className = 'message';
+        follower = createFollower({}, new ContentTracker(container, isAuxiliary, '.message', true));
+        scrollTo(300);
+
+        group.appendChild(document.createElement('p')).className = 'message';
+        group.appendChild(document.createElement('p')).className = 'message';
+        await flush();
+
+        expect(follower.unreadCount).toBe(2);
+        expect(callbacks.onNewContent).toHaveBeenCalledWith(2);
+    });
+
+    it('should reset the unread count at the end', async () => {
+        follower = createFollower();
+        scrollTo(300);
+        addMessage();
+        await flush();
+
+        // Within the stick threshold of the end
+        scrollTo(895);
+
+        expect(follower.unreadCount).toBe(0);
+        expect(callbacks.onUnreadCount).toHaveBeenLastCalledWith(0);
+    });
+
+    it('should reset the unread count when scrolled to the end', async () => {
+        follower = createFollower();
+        scrollTo(300);
+        addMessage();
+        await flush();
+
+        follower.scrollToEnd();
+
+        expect(container.scrollTop).toBe(1100);
+        expect(follower.unreadCount).toBe(0);
+    });
+});
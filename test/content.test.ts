@@ -0,0 +1,113 @@
+import { ContentTracker, querySelectorAllDeep } from "../src/content";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('ContentTracker', () => {
+    let contentContainer: HTMLElement;
+    let observer: MutationObserver | null;
+
+    const flush = async () => {
+        for (let i = 0; i < 5; i++) {
+            await Promise.resolve();
+        }
+    };
+
+    const createItem = (tagName: string = 'p') => {
+        const item = document.createElement(tagName);
+        item.className = 'item';
+        return item;
+    };
+
+    const isAuxiliary = (node: Node) => node instanceof Element && node.hasAttribute('data-sentinel');
+
+    beforeEach(() => {
+        contentContainer = document.createElement('div');
+        contentContainer.appendChild(createItem());
+        document.body.appendChild(contentContainer);
+        observer = null;
+    });
+
+    afterEach(() => {
+        observer?.disconnect();
+        document.body.removeChild(contentContainer);
+    });
+
+    it('should identify the items with the selector', () => {
+        const wrapper = contentContainer.appendChild(document.createElement('div'));
+        wrapper.appendChild(createItem());
+        const sentinel = contentContainer.appendChild(createItem('div'));
+        sentinel.setAttribute('data-sentinel', '');
+
+        expect(new ContentTracker(contentContainer, isAuxiliary).getItems()).toEqual([contentContainer.children[0], wrapper]);
+        expect(new ContentTracker(contentContainer, isAuxiliary, '.item').getItems()).toEqual([contentContainer.children[0]]);
+        expect(new ContentTracker(contentContainer, isAuxiliary, '.item', true).getItems()).toEqual([contentContainer.children[0], wrapper.firstChild]);
+    });
+
+    it('should analyze all the records of a batch', async () => {
+        const callback = vi.fn();
+        observer = new ContentTracker(contentContainer, isAuxiliary).observe(callback);
+
+        const first = contentContainer.appendChild(createItem());
+        const second = contentContainer.appendChild(createItem());
+        const prepended = contentContainer.insertBefore(createItem(), contentContainer.firstChild);
+        await flush();
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith({ start: [prepended], end: [first, second] });
+    });
+
+    it('should not mistake identical siblings for the added items', async () => {
+        const callback = vi.fn();
+        observer = new ContentTracker(contentContainer, isAuxiliary).observe(callback);
+
+        // The prepended item is structurally identical to the last one
+        const prepended = contentContainer.insertBefore(createItem(), contentContainer.firstChild);
+        await flush();
+
+        expect(callback).toHaveBeenCalledWith({ start: [prepended], end: [] });
+    });
+
+    it('should ignore the auxiliary nodes and the nodes which are not items', async () => {
+        const callback = vi.fn();
+        observer = new ContentTracker(contentContainer, isAuxiliary, '.item').observe(callback);
+
+        const sentinel = document.createElement('div');
+        sentinel.setAttribute('data-sentinel', '');
+        contentContainer.appendChild(sentinel);
+        contentContainer.appendChild(document.createElement('div'));
+        contentContainer.appendChild(document.createTextNode('text'));
+        await flush();
+
+        expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should observe the items added in the subtree and in the open shadow roots', async () => {
+        const host = contentContainer.appendChild(document.createElement('div'));
+        const shadowRoot = host.attachShadow({ mode: 'open' });
+        const callback = vi.fn();
+        observer = new ContentTracker(contentContainer, isAuxiliary, '.item', true).observe(callback);
+
+        const item = shadowRoot.appendChild(createItem());
+        await flush();
+
+        expect(callback).toHaveBeenCalledWith({ start: [], end: [item] });
+
+        // Shadow roots of the added elements are observed as well
+        const otherHost = document.createElement('div');
+        const otherShadowRoot = otherHost.attachShadow({ mode: 'open' });
+        contentContainer.appendChild(otherHost);
+        await flush();
+
+        const otherItem = otherShadowRoot.appendChild(createItem());
+        await flush();
+
+        expect(callback).toHaveBeenLastCalledWith({ start: [], end: [otherItem] });
+    });
+
+    it('should query the elements through the open shadow roots in tree order', () => {
+        const host = contentContainer.appendChild(document.createElement('div'));
+        const shadowItem = host.attachShadow({ mode: 'open' }).appendChild(createItem());
+        const lastItem = contentContainer.appendChild(createItem());
+
+        expect(querySelectorAllDeep(contentContainer, '.item')).toEqual([contentContainer.firstChild, shadowItem, lastItem]);
+    });
+});
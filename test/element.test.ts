@@ -0,0 +1,137 @@
+import { PureInfiniteScrollElement } from "../src/element";
+import { PureInfiniteScrollEvent } from "../src/infinite-scroll";
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+describe('PureInfiniteScrollElement', () => {
+    let element: PureInfiniteScrollElement;
+
+    beforeAll(() => {
+        customElements.define('pure-infinite-scroll', PureInfiniteScrollElement);
+    });
+
+    const createElement = (attributes: { [name: string]: string } = {}) => {
+        element = document.createElement('pure-infinite-scroll') as PureInfiniteScrollElement;
+        Object.keys(attributes).forEach((name) => element.setAttribute(name, attributes[name]));
+
+        const list = document.createElement('ul');
+        list.className = 'list';
+        element.appendChild(list);
+
+        document.body.appendChild(element);
+
+        return element;
+    };
+
+    afterEach(() => {
+        element.parentNode?.removeChild(element);
+    });
+
+    it('should create the infinite scroll from the attributes once connected', () => {
+        createElement({ threshold: '120', events: 'scrolledBottom', 'content-selector': '.list' });
+
+        const infiniteScroll = element.infiniteScroll!;
+
+        expect(infiniteScroll.threshold).toBe(120);
+        expect(infiniteScroll.handleEvents).toEqual([PureInfiniteScrollEvent.ScrolledBottom]);
+        expect(infiniteScroll['container']).toBe(element);
+        expect(infiniteScroll['contentContainer']).toBe(element.querySelector('.list'));
+    });
+
+    it('should default to the element as the content container and both vertical edges', () => {
+        createElement();
+
+        expect(element.infiniteScroll!['contentContainer']).toBe(element);
+        expect(element.infiniteScroll!.handleEvents).toEqual([PureInfiniteScrollEvent.ScrolledBottom, PureInfiniteScrollEvent.ScrolledTop]);
+    });
+
+    it('should react to attribute changes', () => {
+        createElement({ threshold: '50' });
+        const infiniteScroll = element.infiniteScroll;
+
+        element.setAttribute('threshold', '200');
+        element.setAttribute('events', 'scrolledTop, scrolledBottom');
+
+        expect(element.infiniteScroll).toBe(infiniteScroll);
+        expect(infiniteScroll!.threshold).toBe(200);
+        expect(infiniteScroll!.handleEvents).toEqual([PureInfiniteScrollEvent.ScrolledTop, PureInfiniteScrollEvent.ScrolledBottom]);
+
+        element.setAttribute('content-selector', '.list');
+
+        expect(element.infiniteScroll).not.toBe(infiniteScroll);
+        expect(infiniteScroll!.state).toBe('destroyed');
+        expect(element.infiniteScroll!['contentContainer']).toBe(element.querySelector('.list'));
+    });
+
+    it('should re-dispatch the events as DOM events', () => {
+        createElement({ threshold: '50' });
+        const listener = vi.fn();
+        element.addEventListener('scrolledBottom', listener);
+
+        element.infiniteScroll!['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual(expect.objectContaining({
+            direction: PureInfiniteScrollEvent.ScrolledBottom,
+            done: expect.any(Function),
+        }));
+    });
+
+    it('should destroy the infinite scroll once disconnected', () => {
+        createElement();
+        const infiniteScroll = element.infiniteScroll!;
+
+        document.body.removeChild(element);
+
+        expect(infiniteScroll.state).toBe('destroyed');
+        expect(element.infiniteScroll).toBeNull();
+    });
+
+    it('should find the content container in the open shadow root and pass the item detection', () => {
+        element = document.createElement('pure-infinite-scroll') as PureInfiniteScrollElement;
+        element.setAttribute('content-selector', '.list');
+        element.setAttribute('item-selector', '.item');
+        element.setAttribute('observe-subtree', '');
+
+        const list = document.createElement('ul');
+        list.className = 'list';
+        element.attachShadow({ mode: 'open' }).appendChild(list);
+
+        document.body.appendChild(element);
+
+        expect(element.infiniteScroll!['contentContainer']).toBe(list);
+        expect(element.infiniteScroll!['contentTracker']['itemSelector']).toBe('.item');
+        expect(element.infiniteScroll!['contentTracker']['subtree']).toBe(true);
+    });
+
+    it('should wait for the content container added after the connection', async () => {
+        element = document.createElement('pure-infinite-scroll') as PureInfiniteScrollElement;
+        element.setAttribute('content-selector', '.list');
+
+        expect(() => document.body.appendChild(element)).not.toThrow();
+        expect(element.infiniteScroll).toBeNull();
+
+        // The children are parsed after the element is connected
+        const wrapper = element.appendChild(document.createElement('div'));
+        await Promise.resolve();
+        expect(element.infiniteScroll).toBeNull();
+
+        const list = wrapper.appendChild(document.createElement('ul'));
+        list.className = 'list';
+        await Promise.resolve();
+
+        expect(element.infiniteScroll!['contentContainer']).toBe(list);
+    });
+
+    it('should stop waiting for the content container once disconnected', async () => {
+        element = document.createElement('pure-infinite-scroll') as PureInfiniteScrollElement;
+        element.setAttribute('content-selector', '.list');
+        document.body.appendChild(element);
+        document.body.removeChild(element);
+
+        const list = element.appendChild(document.createElement('ul'));
+        list.className = 'list';
+        await Promise.resolve();
+
+        expect(element.infiniteScroll).toBeNull();
+    });
+});
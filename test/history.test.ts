@@ -0,0 +1,44 @@
+import { HistorySync } from "../src/history";
+import { afterEach, describe, expect, it } from 'vitest';
+
+describe('HistorySync', () => {
+    afterEach(() => {
+        history.replaceState(null, '', '/');
+    });
+
+    it('should record the state under its key without dropping the other entries', () => {
+        history.replaceState({ other: true }, '');
+
+        new HistorySync({ key: 'feed' }).write({ first: 1, last: 3, anchor: { id: 'a', offset: 10 } });
+
+        expect(history.state).toEqual({ other: true, feed: { first: 1, last: 3, anchor: { id: 'a', offset: 10 } } });
+        expect(location.search).toBe('');
+    });
+
+    it('should read the recorded state back', () => {
+        const historySync = new HistorySync();
+
+        expect(historySync.read()).toBeNull();
+
+        historySync.write({ first: 2, last: 4, anchor: null });
+        expect(historySync.read()).toEqual({ first: 2, last: 4, anchor: null });
+    });
+
+    it('should record the last page in the URL parameter', () => {
+        history.replaceState(null, '', '/feed?sort=new');
+
+        new HistorySync({ urlParam: 'page' }).write({ first: 1, last: 5, anchor: null });
+
+        expect(location.search).toBe('?sort=new&page=5');
+    });
+
+    it('should fall back to the URL parameter', () => {
+        history.replaceState(null, '', '/feed?page=3');
+
+        expect(new HistorySync({ urlParam: 'page' }).read()).toEqual({ last: 3, anchor: null });
+        expect(new HistorySync().read()).toBeNull();
+
+        history.replaceState(null, '', '/feed?page=invalid');
+        expect(new HistorySync({ urlParam: 'page' }).read()).toBeNull();
+    });
+});
@@ -0,0 +1,88 @@
+import { IndicatorManager } from "../src/indicators";
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('IndicatorManager', () => {
+    let contentContainer: HTMLElement;
+    let retry: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        contentContainer = document.createElement('div');
+        contentContainer.appendChild(document.createElement('p'));
+        retry = vi.fn();
+    });
+
+    it('should show the indicators at both ends of the content', () => {
+        const indicatorManager = new IndicatorManager(contentContainer, { loading: '<span>Loading</span>' }, retry);
+
+        indicatorManager.show('start', 'loading');
+        indicatorManager.show('end', 'loading');
+
+        const { firstChild, lastChild } = contentContainer;
+        expect((firstChild as HTMLElement).outerHTML).toBe('<div data-pure-infinite-scroll-indicator="start" data-state="loading"><span>Loading</span></div>');
+        expect(indicatorManager.getEdge(firstChild)).toBe('start');
+        expect(indicatorManager.getEdge(lastChild)).toBe('end');
+        expect(indicatorManager.getEdge(contentContainer.children[1])).toBeNull();
+    });
+
+    it('should replace and hide the indicator of an edge', () => {
+        const indicatorManager = new IndicatorManager(contentContainer, { loading: 'Loading', end: 'The end' }, retry);
+
+        indicatorManager.show('end', 'loading');
+        indicatorManager.show('end', 'end');
+
+        expect(contentContainer.children).toHaveLength(2);
+        expect(contentContainer.lastChild!.textContent).toBe('The end');
+        expect(indicatorManager.getState('end')).toBe('end');
+
+        indicatorManager.show('end', null);
+
+        expect(contentContainer.children).toHaveLength(1);
+        expect(indicatorManager.isShown('end')).toBe(false);
+    });
+
+    it('should track the state of the edges without template', () => {
+        const indicatorManager = new IndicatorManager(contentContainer, {}, retry);
+
+        indicatorManager.show('end', 'loading');
+
+        expect(indicatorManager.getState('end')).toBe('loading');
+        expect(indicatorManager.isShown('end')).toBe(false);
+        expect(contentContainer.children).toHaveLength(1);
+    });
+
+    it('should pass the context to the template functions', () => {
+        const error = new Error('Network');
+        const template = vi.fn(({ retry }: { retry: () => void }) => {
+            const button = document.createElement('button');
+            button.addEventListener('click', retry);
+            return button;
+        });
+        const indicatorManager = new IndicatorManager(contentContainer, { error: template }, retry);
+
+        indicatorManager.show('start', 'error', error);
+        (contentContainer.firstChild!.firstChild as HTMLElement).click();
+
+        expect(template).toHaveBeenCalledWith(expect.objectContaining({ edge: 'start', state: 'error', error }));
+        expect(retry).toHaveBeenCalledWith('start');
+    });
+
+    it('should retry when an element with the retry attribute is clicked', () => {
+        const indicatorManager = new IndicatorManager(contentContainer, { error: 'Failed <button data-pure-infinite-scroll-retry><i>Retry</i></button>' }, retry);
+
+        indicatorManager.show('end', 'error');
+        contentContainer.querySelector('i')!.click();
+
+        expect(retry).toHaveBeenCalledWith('end');
+    });
+
+    it('should remove the indicators on disconnect', () => {
+        const indicatorManager = new IndicatorManager(contentContainer, { end: 'The end' }, retry);
+
+        indicatorManager.show('start', 'end');
+        indicatorManager.show('end', 'end');
+        indicatorManager.disconnect();
+
+        expect(contentContainer.children).toHaveLength(1);
+        expect(indicatorManager.getState('end')).toBeNull();
+    });
+});
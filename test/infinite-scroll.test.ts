@@ -1,10 +1,50 @@
 import { PureInfiniteScroll, PureInfiniteScrollEvent } from "../src/infinite-scroll";
+import { PageCache, PureInfiniteScrollMemoryStorage } from "../src/cache";
+import { PureInfiniteScrollScheduler } from "../src/scheduler";
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 describe('InfiniteScroll', () => {
     let container: HTMLElement;
     let contentContainer: HTMLElement;
     let infiniteScroll: PureInfiniteScroll;
+    let scrollHeight: number;
+
+    // Settles the pending promise chains, e.g. a load and its insertion
+    const flush = async () => {
+        for (let i = 0; i < 5; i++) {
+            await Promise.resolve();
+        }
+    };
+
+    const getHeight = (element: Element) => Number(element.getAttribute('data-height') ?? 100);
+
+    // Lays the element out after its previous siblings, 100px high unless set by its "data-height",
+    // and scrolled by the scroll top of the container
+    const layOut = <E extends Element>(element: E): E => {
+        element.getBoundingClientRect = () => {
+            let top = -container.scrollTop;
+
+            for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+                top += getHeight(sibling);
+            }
+
+            return { top, bottom: top + getHeight(element), left: 0, right: 100 } as DOMRect;
+        };
+
+        return element;
+    };
+
+    type Item = { id: string, height?: number };
+
+    const render = (item: Item) => {
+        const element = document.createElement('p');
+        element.setAttribute('data-id', item.id);
+        element.setAttribute('data-height', String(item.height ?? 100));
+
+        return layOut(element);
+    };
+
+    const ids = () => Array.from(contentContainer.children).map((child) => child.getAttribute('data-id'));
 
     beforeEach(() => {
         container = document.createElement('div');
@@ -16,10 +56,8 @@ describe('InfiniteScroll', () => {
 
         Object.defineProperty(container, 'clientHeight', { value: 200 });
 
-        Object.defineProperty(container, 'scrollHeight', {
-            writable: true,
-            value: 1000,
-        });
+        scrollHeight = 1000;
+        Object.defineProperty(container, 'scrollHeight', { get: () => scrollHeight });
 
         infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50);
     });
@@ -315,10 +353,7 @@ describe('InfiniteScroll', () => {
             newContent.style.height = '200px';
             contentContainer.appendChild(newContent);
 
-            Object.defineProperty(container, 'scrollHeight', {
-                writable: true,
-                value: container.scrollHeight + 200,
-            });
+            scrollHeight += 200;
 
             await new Promise<void>((resolve) => {
                 setTimeout(() => {
@@ -426,4 +461,1821 @@ describe('InfiniteScroll', () => {
             });
         });
     });
+
+    describe('Loader', () => {
+        it('should append the nodes resolved by loadNext', async () => {
+            const node = document.createElement('div');
+            const loadNext = vi.fn().mockResolvedValue([node]);
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext } });
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            expect(infiniteScroll.isLoading(PureInfiniteScrollEvent.ScrolledBottom)).toBe(true);
+            expect(infiniteScroll['observerEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBeNull();
+
+            await infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(loadNext).toHaveBeenCalledWith(expect.objectContaining({ event: PureInfiniteScrollEvent.ScrolledBottom, loadCount: 0 }));
+            expect(contentContainer.lastChild).toBe(node);
+            expect(infiniteScroll.isLoading(PureInfiniteScrollEvent.ScrolledBottom)).toBe(false);
+            expect(infiniteScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+        });
+
+        it('should render items and prepend them with loadPrevious', async () => {
+            contentContainer.appendChild(document.createElement('section'));
+            const loadPrevious = vi.fn().mockResolvedValue(['a', 'b']);
+            const render = (item: string) => {
+                const element = document.createElement('p');
+                element.textContent = item;
+                return element;
+            };
+            const customScroll = new PureInfiniteScroll<string>(container, contentContainer, 50, undefined, { loader: { loadPrevious }, render });
+
+            customScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+            await customScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledTop];
+
+            expect(Array.from(contentContainer.children).map((child) => child.textContent)).toEqual(['a', 'b', '']);
+        });
+
+        it('should re-arm the event when the load fails', async () => {
+            const loadNext = vi.fn().mockRejectedValue(new Error('Network error'));
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext } });
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(infiniteScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+            expect(contentContainer.childNodes.length).toBe(0);
+        });
+
+        it('should report the errors thrown by the render function', async () => {
+            const errorSpy = vi.fn();
+            const render = () => {
+                throw new Error('Render error');
+            };
+            const renderScroll = new PureInfiniteScroll<string>(container, contentContainer, 50, undefined, { loader: { loadNext: async () => ['a'] }, render });
+            renderScroll.on(PureInfiniteScrollEvent.LoadError, errorSpy);
+
+            renderScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await renderScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(errorSpy).toHaveBeenCalledWith(expect.objectContaining({ direction: PureInfiniteScrollEvent.ScrolledBottom, error: new Error('Render error') }));
+            expect(renderScroll.state).toBe('idle');
+
+            renderScroll.destroy();
+        });
+
+        it('should report the errors thrown synchronously by the loader', async () => {
+            const errorSpy = vi.fn();
+            const loadNext = () => {
+                throw new Error('Loader error');
+            };
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext } });
+            infiniteScroll.on(PureInfiniteScrollEvent.LoadError, errorSpy);
+
+            expect(() => infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom)).not.toThrow();
+            await infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(errorSpy).toHaveBeenCalledWith(expect.objectContaining({ error: new Error('Loader error') }));
+            expect(infiniteScroll.state).toBe('idle');
+        });
+    });
+
+    describe('Virtual mode', () => {
+        const render = (item: number) => {
+            const element = document.createElement('div');
+            element.textContent = String(item);
+            return element;
+        };
+
+        it('should require a render function', () => {
+            expect(() => new PureInfiniteScroll(container, contentContainer, 50, undefined, { virtual: { itemHeight: 20 } })).toThrow();
+        });
+
+        it('should wait for appendItems instead of content changes', () => {
+            const virtualScroll = new PureInfiniteScroll<number>(container, contentContainer, 50, undefined, { virtual: { itemHeight: 20 }, render });
+
+            virtualScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            expect(virtualScroll['observerEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBeNull();
+
+            virtualScroll.appendItems(Array.from({ length: 100 }, (_, i) => i));
+
+            expect(virtualScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+            expect(contentContainer.children.length).toBeLessThan(100);
+        });
+
+        it('should emit "scrolledBottom" when the virtual range reaches the end', () => {
+            const virtualScroll = new PureInfiniteScroll<number>(container, contentContainer, 50, undefined, { virtual: { itemHeight: 20, overscan: 2 }, render });
+            virtualScroll.appendItems([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+
+            const bottomSpy = vi.fn();
+            virtualScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            container.scrollTop = 300;
+            virtualScroll['handleScroll']();
+
+            expect(bottomSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should keep the visible items in place when items are prepended', () => {
+            const virtualScroll = new PureInfiniteScroll<number>(container, contentContainer, 50, undefined, { virtual: { itemHeight: 20 }, render });
+            virtualScroll.appendItems(Array.from({ length: 100 }, (_, i) => i + 10));
+
+            container.scrollTop = 100;
+            virtualScroll.prependItems([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+            expect(container.scrollTop).toBe(300);
+        });
+    });
+
+    describe('Horizontal axis', () => {
+        let horizontalScroll: PureInfiniteScroll;
+
+        beforeEach(() => {
+            Object.defineProperty(container, 'clientWidth', { value: 300 });
+            Object.defineProperty(container, 'scrollWidth', { writable: true, value: 1500 });
+
+            horizontalScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { axis: 'horizontal' });
+        });
+
+        it('should handle the start and end events by default', () => {
+            expect(horizontalScroll.handleEvents).toEqual([PureInfiniteScrollEvent.ScrolledEnd, PureInfiniteScrollEvent.ScrolledStart]);
+        });
+
+        it('should emit "scrolledEnd" if scrolled to the right end', () => {
+            const endSpy = vi.fn();
+            const bottomSpy = vi.fn();
+            horizontalScroll.on(PureInfiniteScrollEvent.ScrolledEnd, endSpy);
+            horizontalScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            container.scrollTop = container.scrollHeight - container.clientHeight;
+            container.scrollLeft = 1180;
+            horizontalScroll['handleScroll']();
+
+            expect(endSpy).toHaveBeenCalledTimes(1);
+            expect(bottomSpy).not.toHaveBeenCalled();
+        });
+
+        it('should emit "scrolledStart" if scrolled to the left start', () => {
+            const startSpy = vi.fn();
+            horizontalScroll.on(PureInfiniteScrollEvent.ScrolledStart, startSpy);
+
+            container.scrollLeft = 400;
+            horizontalScroll['handleScroll']();
+            expect(startSpy).not.toHaveBeenCalled();
+
+            container.scrollLeft = 20;
+            horizontalScroll['handleScroll']();
+            expect(startSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should keep the horizontal position when content is prepended at the start', async () => {
+            container.scrollLeft = 20;
+            horizontalScroll['handleScroll']();
+
+            Object.defineProperty(container, 'scrollWidth', { writable: true, value: 1800 });
+            contentContainer.insertBefore(document.createElement('div'), contentContainer.firstChild);
+
+            await new Promise<void>((resolve) => {
+                setTimeout(() => {
+                    expect(container.scrollLeft).toBe(320);
+                    expect(horizontalScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledStart]).toBe(false);
+                    resolve();
+                }, 50);
+            });
+        });
+    });
+
+    describe('Intersection detection', () => {
+        let intersectionCallback: (entries: Partial<IntersectionObserverEntry>[]) => void;
+
+        beforeEach(() => {
+            vi.stubGlobal('IntersectionObserver', class {
+                constructor(callback: typeof intersectionCallback) {
+                    intersectionCallback = callback;
+                }
+                observe() {}
+                unobserve() {}
+                disconnect() {}
+            });
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it('should emit "scrolledBottom" when the end sentinel intersects', () => {
+            const intersectionScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { detection: 'intersection' });
+            const bottomSpy = vi.fn();
+            intersectionScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            intersectionCallback([{ target: contentContainer.lastChild as Element, isIntersecting: true }]);
+
+            expect(bottomSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not listen to scroll events', () => {
+            const addEventListener = vi.spyOn(container, 'addEventListener');
+            new PureInfiniteScroll(container, contentContainer, 50, undefined, { detection: 'intersection' });
+
+            expect(addEventListener).not.toHaveBeenCalledWith('scroll', expect.anything());
+        });
+
+        it('should fall back to scroll events without IntersectionObserver', () => {
+            vi.stubGlobal('IntersectionObserver', undefined);
+            const addEventListener = vi.spyOn(container, 'addEventListener');
+            const fallbackScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { detection: 'intersection' });
+
+            expect(addEventListener).toHaveBeenCalledWith('scroll', expect.any(Function));
+            expect(fallbackScroll['sentinelObserver']).toBeNull();
+        });
+
+        it('should insert loaded content between the sentinels', async () => {
+            const node = document.createElement('article');
+            const intersectionScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                detection: 'intersection',
+                loader: { loadNext: async () => [node] },
+            });
+
+            intersectionCallback([{ target: contentContainer.lastChild as Element, isIntersecting: true }]);
+            await intersectionScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(contentContainer.childNodes[1]).toBe(node);
+            expect(contentContainer.lastChild).toBe(intersectionScroll['sentinelObserver']!.end);
+        });
+
+        it('should ignore the sentinels when detecting content changes', async () => {
+            const intersectionScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { detection: 'intersection' });
+            intersectionScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+
+            // Moving the end sentinel is not new content at the top
+            contentContainer.insertBefore(intersectionScroll['sentinelObserver']!.end, contentContainer.firstChild);
+
+            await new Promise<void>((resolve) => setTimeout(resolve, 20));
+            expect(intersectionScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledTop]).toBe(true);
+
+            contentContainer.insertBefore(document.createElement('article'), contentContainer.firstChild);
+
+            await new Promise<void>((resolve) => setTimeout(resolve, 20));
+            expect(intersectionScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledTop]).toBe(false);
+        });
+    });
+
+    describe('Lifecycle', () => {
+        it('should report the state', () => {
+            expect(infiniteScroll.state).toBe('idle');
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            expect(infiniteScroll.state).toBe('loading');
+
+            infiniteScroll.pause();
+            expect(infiniteScroll.state).toBe('paused');
+
+            infiniteScroll.destroy();
+            expect(infiniteScroll.state).toBe('destroyed');
+        });
+
+        it('should remove the scroll listener, observers and event listeners on destroy', () => {
+            const removeEventListener = vi.spyOn(container, 'removeEventListener');
+            const bottomSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+            const observer = infiniteScroll['observerEvents'][PureInfiniteScrollEvent.ScrolledTop]!;
+            const disconnect = vi.spyOn(observer, 'disconnect');
+            const scrollListener = infiniteScroll['scrollListener'];
+
+            infiniteScroll.destroy();
+
+            expect(removeEventListener).toHaveBeenCalledWith('scroll', scrollListener);
+            expect(disconnect).toHaveBeenCalled();
+            expect(infiniteScroll.listenerCount(PureInfiniteScrollEvent.ScrolledBottom)).toBe(0);
+
+            container.scrollTop = container.scrollHeight - container.clientHeight;
+            container.dispatchEvent(new Event('scroll'));
+            expect(bottomSpy).not.toHaveBeenCalled();
+        });
+
+        it('should not emit events while paused', () => {
+            const bottomSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            infiniteScroll.pause();
+            container.scrollTop = container.scrollHeight - container.clientHeight;
+            infiniteScroll['handleScroll']();
+            expect(bottomSpy).not.toHaveBeenCalled();
+
+            infiniteScroll.resume();
+            expect(bottomSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should clear the waiting events and re-evaluate on reset', () => {
+            const bottomSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            container.scrollTop = container.scrollHeight - container.clientHeight;
+            infiniteScroll['handleScroll']();
+            expect(bottomSpy).toHaveBeenCalledTimes(1);
+
+            infiniteScroll.reset();
+            expect(bottomSpy).toHaveBeenCalledTimes(2);
+        });
+
+        it('should ignore the loads started before a reset', async () => {
+            const node = document.createElement('div');
+            let resolveLoad: (nodes: Node[]) => void = () => {};
+            const loadNext = vi.fn(() => new Promise<Node[]>((resolve) => resolveLoad = resolve));
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], { loader: { loadNext } });
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            const load = infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+            infiniteScroll.reset();
+
+            resolveLoad([node]);
+            await load;
+
+            expect(node.parentNode).toBeNull();
+        });
+    });
+
+    describe('Pagination', () => {
+        it('should pass the page in the event detail', () => {
+            const bottomSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+
+            expect(bottomSpy).toHaveBeenCalledWith(expect.objectContaining({ direction: PureInfiniteScrollEvent.ScrolledBottom, page: 2, cursor: null }));
+        });
+
+        it('should advance the pages once the content is inserted', async () => {
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            contentContainer.appendChild(document.createElement('div'));
+
+            await new Promise<void>((resolve) => setTimeout(resolve, 20));
+
+            expect(infiniteScroll.pages).toEqual({ first: 1, last: 2 });
+        });
+
+        it('should not emit "scrolledTop" from the first page', () => {
+            const pagedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { pagination: { initialPage: 1 } });
+            const topSpy = vi.fn();
+            pagedScroll.on(PureInfiniteScrollEvent.ScrolledTop, topSpy);
+
+            container.scrollTop = 0;
+            pagedScroll['handleScroll']();
+
+            expect(topSpy).not.toHaveBeenCalled();
+            expect(pagedScroll.isFinished(PureInfiniteScrollEvent.ScrolledTop)).toBe(true);
+        });
+
+        it('should stop emitting and emit "reachedEnd" once finished', () => {
+            const bottomSpy = vi.fn();
+            const reachedEndSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+            infiniteScroll.on(PureInfiniteScrollEvent.ReachedEnd, reachedEndSpy);
+
+            infiniteScroll.finish(PureInfiniteScrollEvent.ScrolledBottom);
+            infiniteScroll.finish(PureInfiniteScrollEvent.ScrolledBottom);
+
+            container.scrollTop = container.scrollHeight - container.clientHeight;
+            infiniteScroll['handleScroll']();
+
+            expect(bottomSpy).not.toHaveBeenCalled();
+            expect(reachedEndSpy).toHaveBeenCalledTimes(1);
+            expect(reachedEndSpy).toHaveBeenCalledWith({ direction: PureInfiniteScrollEvent.ScrolledBottom, page: 1, cursor: null });
+        });
+
+        it('should emit again once re-armed', () => {
+            const bottomSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+            infiniteScroll.finish(PureInfiniteScrollEvent.ScrolledBottom);
+
+            container.scrollTop = container.scrollHeight - container.clientHeight;
+            infiniteScroll.rearm(PureInfiniteScrollEvent.ScrolledBottom);
+
+            expect(bottomSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should pass the cursors to the loader and finish with the last one', async () => {
+            const reachedEndSpy = vi.fn();
+            const loadNext = vi.fn()
+                .mockResolvedValueOnce({ items: [document.createElement('div')], cursor: 'b' })
+                .mockResolvedValueOnce({ items: [document.createElement('div')], cursor: null });
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], {
+                loader: { loadNext },
+                pagination: { nextCursor: 'a' },
+            });
+            infiniteScroll.on(PureInfiniteScrollEvent.ReachedEnd, reachedEndSpy);
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(loadNext).toHaveBeenNthCalledWith(1, expect.objectContaining({ page: 2, cursor: 'a' }));
+            expect(loadNext).toHaveBeenNthCalledWith(2, expect.objectContaining({ page: 3, cursor: 'b' }));
+            expect(reachedEndSpy).toHaveBeenCalledTimes(1);
+            expect(infiniteScroll.isFinished(PureInfiniteScrollEvent.ScrolledBottom)).toBe(true);
+        });
+
+        it('should finish when the loader reports no more content', async () => {
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext: async () => ({ items: [], hasMore: false }) },
+            });
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(infiniteScroll.isFinished(PureInfiniteScrollEvent.ScrolledBottom)).toBe(true);
+        });
+    });
+
+    describe('Load failures', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should emit "loadError" when the loader rejects', async () => {
+            const error = new Error('Network error');
+            const errorSpy = vi.fn();
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext: () => Promise.reject(error) } });
+            infiniteScroll.on(PureInfiniteScrollEvent.LoadError, errorSpy);
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(errorSpy).toHaveBeenCalledWith({ direction: PureInfiniteScrollEvent.ScrolledBottom, error, attempt: 1, retryDelay: null });
+        });
+
+        it('should clear the waiting event when an error is reported', () => {
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            infiniteScroll.reportError(PureInfiniteScrollEvent.ScrolledBottom, new Error('Network error'));
+
+            expect(infiniteScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+            expect(infiniteScroll['observerEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBeNull();
+        });
+
+        it('should retry automatically with backoff', () => {
+            vi.useFakeTimers();
+            const bottomSpy = vi.fn();
+            const errorSpy = vi.fn();
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { retry: { retries: 2, delay: 100, jitter: 0 } });
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+            infiniteScroll.on(PureInfiniteScrollEvent.LoadError, errorSpy);
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            infiniteScroll.reportError(PureInfiniteScrollEvent.ScrolledBottom, 'first');
+            expect(errorSpy).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 1, retryDelay: 100 }));
+
+            // Scrolling doesn't emit before the retry
+            container.scrollTop = container.scrollHeight - container.clientHeight;
+            infiniteScroll['handleScroll']();
+            expect(bottomSpy).toHaveBeenCalledTimes(1);
+
+            vi.advanceTimersByTime(100);
+            expect(bottomSpy).toHaveBeenCalledTimes(2);
+
+            infiniteScroll.reportError(PureInfiniteScrollEvent.ScrolledBottom, 'second');
+            expect(errorSpy).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 2, retryDelay: 200 }));
+
+            vi.advanceTimersByTime(200);
+            infiniteScroll.reportError(PureInfiniteScrollEvent.ScrolledBottom, 'third');
+            expect(errorSpy).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 3, retryDelay: null }));
+
+            vi.advanceTimersByTime(10000);
+            expect(bottomSpy).toHaveBeenCalledTimes(3);
+        });
+
+        it('should retry right away when asked', () => {
+            vi.useFakeTimers();
+            const bottomSpy = vi.fn();
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { retry: { retries: 1, delay: 5000 } });
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            infiniteScroll.reportError(PureInfiniteScrollEvent.ScrolledBottom, 'error');
+            infiniteScroll.retry(PureInfiniteScrollEvent.ScrolledBottom);
+            expect(bottomSpy).toHaveBeenCalledTimes(2);
+
+            vi.advanceTimersByTime(5000);
+            expect(bottomSpy).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reset the attempts after a successful load', async () => {
+            const errorSpy = vi.fn();
+            const loadNext = vi.fn()
+                .mockRejectedValueOnce('first')
+                .mockResolvedValueOnce([document.createElement('div')])
+                .mockRejectedValueOnce('second');
+            infiniteScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext } });
+            infiniteScroll.on(PureInfiniteScrollEvent.LoadError, errorSpy);
+
+            for (let i = 0; i < 3; i++) {
+                infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+                await infiniteScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+            }
+
+            expect(errorSpy).toHaveBeenCalledTimes(2);
+            expect(errorSpy).toHaveBeenLastCalledWith(expect.objectContaining({ error: 'second', attempt: 1 }));
+        });
+    });
+
+    describe('Completion handles', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should complete the event when the listener calls done', () => {
+            const manualScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { completion: 'manual' });
+            manualScroll.on(PureInfiniteScrollEvent.ScrolledBottom, ({ done }) => {
+                contentContainer.appendChild(document.createTextNode('text'));
+                done(1);
+            });
+
+            manualScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+
+            expect(manualScroll['observerEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBeNull();
+            expect(manualScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+            expect(manualScroll.pages.last).toBe(2);
+        });
+
+        it('should complete the event when nothing is inserted', () => {
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledTop, ({ done }) => done(0));
+            container.scrollTop = 10;
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+
+            expect(infiniteScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledTop]).toBe(false);
+            expect(container.scrollTop).toBe(10);
+        });
+
+        it('should complete the event when the waitUntil promise resolves', async () => {
+            const manualScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { completion: 'manual' });
+            let resolveInsertion: (count: number) => void = () => {};
+            manualScroll.on(PureInfiniteScrollEvent.ScrolledBottom, ({ waitUntil }) => {
+                waitUntil(new Promise<number>((resolve) => resolveInsertion = resolve));
+            });
+
+            manualScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            expect(manualScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(true);
+
+            resolveInsertion(3);
+            await Promise.resolve();
+
+            expect(manualScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+        });
+
+        it('should report an error when the waitUntil promise rejects', async () => {
+            const errorSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.LoadError, errorSpy);
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, ({ waitUntil }) => waitUntil(Promise.reject('error')));
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+            expect(errorSpy).toHaveBeenCalledWith(expect.objectContaining({ error: 'error', attempt: 1 }));
+        });
+
+        it('should ignore the handles of a previous emission', () => {
+            const handles: Array<() => void> = [];
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, ({ done }) => handles.push(done));
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            handles[0]();
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            handles[0]();
+
+            expect(infiniteScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(true);
+            expect(infiniteScroll.pages.last).toBe(2);
+        });
+
+        it('should clear a stuck event and emit "loadTimeout"', () => {
+            vi.useFakeTimers();
+            const timeoutSpy = vi.fn();
+            const watchedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { timeout: 3000 });
+            watchedScroll.on(PureInfiniteScrollEvent.LoadTimeout, timeoutSpy);
+            let done: () => void = () => {};
+            watchedScroll.on(PureInfiniteScrollEvent.ScrolledBottom, (detail) => done = detail.done);
+
+            watchedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            vi.advanceTimersByTime(3000);
+
+            expect(timeoutSpy).toHaveBeenCalledWith({ direction: PureInfiniteScrollEvent.ScrolledBottom, timeout: 3000 });
+            expect(watchedScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+            expect(watchedScroll['observerEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBeNull();
+
+            // A late completion is ignored
+            done();
+            expect(watchedScroll.pages.last).toBe(1);
+        });
+
+        it('should not time out a completed event', () => {
+            vi.useFakeTimers();
+            const timeoutSpy = vi.fn();
+            const watchedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { timeout: 3000 });
+            watchedScroll.on(PureInfiniteScrollEvent.LoadTimeout, timeoutSpy);
+            watchedScroll.on(PureInfiniteScrollEvent.ScrolledBottom, ({ done }) => done());
+
+            watchedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            vi.advanceTimersByTime(5000);
+
+            expect(timeoutSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Window scrolling', () => {
+        let scrollTo: ReturnType<typeof vi.spyOn>;
+
+        const scrollWindow = (scrollY: number, scrollHeight: number) => {
+            Object.defineProperty(window, 'scrollY', { configurable: true, value: scrollY });
+            Object.defineProperty(document.documentElement, 'scrollHeight', { configurable: true, value: scrollHeight });
+        };
+
+        beforeEach(() => {
+            Object.defineProperty(window, 'innerHeight', { configurable: true, value: 800 });
+            scrollTo = vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            delete (window as { scrollY?: number }).scrollY;
+            delete (window as { innerHeight?: number }).innerHeight;
+            delete (document.documentElement as { scrollHeight?: number }).scrollHeight;
+            vi.restoreAllMocks();
+        });
+
+        it('should require a content container', () => {
+            expect(() => new PureInfiniteScroll(window)).toThrow();
+        });
+
+        it('should listen to the scroll events of the window', () => {
+            const addEventListener = vi.spyOn(window, 'addEventListener');
+            const windowScroll = new PureInfiniteScroll(document.documentElement, contentContainer, 50);
+
+            expect(addEventListener).toHaveBeenCalledWith('scroll', windowScroll['scrollListener']);
+
+            windowScroll.destroy();
+        });
+
+        it('should emit "scrolledBottom" near the bottom of the document', () => {
+            const windowScroll = new PureInfiniteScroll(window, contentContainer, 50);
+            const bottomSpy = vi.fn();
+            windowScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            scrollWindow(1000, 2000);
+            windowScroll['handleScroll']();
+            expect(bottomSpy).not.toHaveBeenCalled();
+
+            scrollWindow(1160, 2000);
+            windowScroll['handleScroll']();
+            expect(bottomSpy).toHaveBeenCalledTimes(1);
+
+            windowScroll.destroy();
+        });
+
+        it('should keep the position with window.scrollTo when content is prepended', async () => {
+            const windowScroll = new PureInfiniteScroll(window, contentContainer, 50);
+
+            scrollWindow(20, 2000);
+            windowScroll['handleScroll']();
+
+            scrollWindow(20, 2400);
+            contentContainer.insertBefore(document.createElement('div'), contentContainer.firstChild);
+
+            await new Promise<void>((resolve) => setTimeout(resolve, 20));
+
+            expect(scrollTo).toHaveBeenCalledWith(window.scrollX, 420);
+
+            windowScroll.destroy();
+        });
+    });
+
+    describe('Scroll anchoring', () => {
+        const createItem = (height: number) => {
+            const item = document.createElement('div');
+            item.setAttribute('data-height', String(height));
+
+            return layOut(item);
+        };
+
+        beforeEach(() => {
+            for (let i = 0; i < 10; i++) {
+                contentContainer.appendChild(createItem(100));
+            }
+        });
+
+        it('should keep the first visible item in place when the loader prepends content', async () => {
+            const anchoredScroll = new PureInfiniteScroll<number>(container, contentContainer, 50, undefined, {
+                loader: { loadPrevious: async () => [createItem(100), createItem(100)] },
+                scrollAnchoring: { settleTime: 0 },
+            });
+            const firstVisible = contentContainer.children[0];
+
+            container.scrollTop = 30;
+            anchoredScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+            await anchoredScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledTop];
+
+            // The scroll height is mocked and doesn't change, the anchor is used instead
+            expect(firstVisible.getBoundingClientRect().top).toBe(-30);
+
+            anchoredScroll.destroy();
+        });
+
+        it('should not be created in virtual mode', () => {
+            const virtualScroll = new PureInfiniteScroll<number>(container, contentContainer, 50, undefined, {
+                render: (item) => createItem(item),
+                virtual: { itemHeight: 20 },
+                scrollAnchoring: true,
+            });
+
+            expect(virtualScroll['scrollAnchor']).toBeNull();
+
+            virtualScroll.destroy();
+        });
+    });
+
+    describe('Auto-fill', () => {
+        // Each loaded item adds 100px to the content
+        const createLoader = () => vi.fn(async () => {
+            scrollHeight += 100;
+            return [document.createElement('div')];
+        });
+
+        beforeEach(() => {
+            scrollHeight = 100;
+        });
+
+        it('should emit events until the content overflows by the threshold', async () => {
+            const loadNext = createLoader();
+            const fillingScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext }, autoFill: true });
+            const filledSpy = vi.fn();
+            fillingScroll.on(PureInfiniteScrollEvent.Filled, filledSpy);
+
+            await flush();
+            await flush();
+
+            // 200px container + 50px threshold: 100px -> 300px
+            expect(loadNext).toHaveBeenCalledTimes(2);
+            expect(filledSpy).toHaveBeenCalledWith({ iterations: 2, overflowing: true });
+
+            fillingScroll.destroy();
+        });
+
+        it('should stop at the maximum number of iterations', async () => {
+            const loadNext = vi.fn(async () => [document.createElement('div')]);
+            const fillingScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext }, autoFill: { maxIterations: 3 } });
+            const filledSpy = vi.fn();
+            fillingScroll.on(PureInfiniteScrollEvent.Filled, filledSpy);
+
+            for (let i = 0; i < 4; i++) {
+                await flush();
+            }
+
+            expect(loadNext).toHaveBeenCalledTimes(3);
+            expect(filledSpy).toHaveBeenCalledWith({ iterations: 3, overflowing: false });
+
+            fillingScroll.destroy();
+        });
+
+        it('should stop when there is nothing more to load', async () => {
+            const fillingScroll = new PureInfiniteScroll(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], {
+                loader: { loadNext: async () => ({ items: [document.createElement('div')], hasMore: false }) },
+                autoFill: true,
+            });
+            const filledSpy = vi.fn();
+            fillingScroll.on(PureInfiniteScrollEvent.Filled, filledSpy);
+
+            await flush();
+            await flush();
+
+            expect(filledSpy).toHaveBeenCalledWith({ iterations: 1, overflowing: false });
+
+            fillingScroll.destroy();
+        });
+
+        it('should fill again when the container is resized', async () => {
+            let resizeCallback: () => void = () => {};
+            vi.stubGlobal('ResizeObserver', class {
+                constructor(callback: () => void) {
+                    resizeCallback = callback;
+                }
+                observe() {}
+                disconnect() {}
+            });
+
+            scrollHeight = 300;
+            const loadNext = createLoader();
+            const fillingScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext }, autoFill: true });
+
+            await flush();
+            expect(loadNext).not.toHaveBeenCalled();
+
+            // The container got wider, the content reflowed shorter
+            scrollHeight = 200;
+            resizeCallback();
+            await flush();
+
+            expect(loadNext).toHaveBeenCalledTimes(1);
+
+            fillingScroll.destroy();
+            vi.unstubAllGlobals();
+        });
+    });
+
+    describe('History synchronization', () => {
+        const createItem = (id: string) => {
+            const item = document.createElement('div');
+            item.setAttribute('data-id', id);
+
+            return layOut(item);
+        };
+
+        afterEach(() => {
+            history.replaceState(null, '', '/');
+        });
+
+        it('should record the loaded pages and the first visible item', async () => {
+            const historyScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext: async ({ page }) => [createItem(`${page}-a`), createItem(`${page}-b`)] },
+                history: { urlParam: 'page' },
+            });
+
+            historyScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            container.scrollTop = 120;
+            await historyScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+            await flush();
+
+            expect(history.state.pureInfiniteScroll).toEqual({ first: 1, last: 2, anchor: { id: '2-b', offset: -20 } });
+            expect(location.search).toBe('?page=2');
+
+            historyScroll.destroy();
+        });
+
+        it('should load the recorded pages and scroll back to the anchor', async () => {
+            history.replaceState({ pureInfiniteScroll: { first: 1, last: 3, anchor: { id: '3-a', offset: 30 } } }, '');
+
+            const loadNext = vi.fn(async ({ page }: { page: number }) => [createItem(`${page}-a`), createItem(`${page}-b`)]);
+            const historyScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { loader: { loadNext }, history: true });
+
+            for (let i = 0; i < 4; i++) {
+                await flush();
+            }
+
+            expect(loadNext).toHaveBeenCalledTimes(2);
+            expect(historyScroll.pages).toEqual({ first: 1, last: 3 });
+
+            // "3-a" is the third item, 200px from the top of the content
+            expect(container.scrollTop).toBe(170);
+
+            historyScroll.destroy();
+        });
+
+        it('should give up the restoration and record again when a load fails', async () => {
+            history.replaceState({ pureInfiniteScroll: { first: 1, last: 3, anchor: { id: '3-a', offset: 30 } } }, '');
+            contentContainer.appendChild(createItem('1-a'));
+            contentContainer.appendChild(createItem('1-b'));
+
+            const historyScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext: async () => { throw new Error('offline'); } },
+                history: true,
+            });
+            await flush();
+
+            expect(historyScroll['restoredState']).toBeNull();
+
+            vi.useFakeTimers();
+            container.scrollTop = 120;
+            container.dispatchEvent(new Event('scroll'));
+            vi.advanceTimersByTime(100);
+
+            expect(history.state.pureInfiniteScroll).toEqual({ first: 1, last: 1, anchor: { id: '1-b', offset: -20 } });
+
+            historyScroll.destroy();
+            vi.useRealTimers();
+        });
+
+        it('should record the first visible item once the user stops scrolling', async () => {
+            vi.useFakeTimers();
+
+            contentContainer.appendChild(createItem('a'));
+            contentContainer.appendChild(createItem('b'));
+
+            const historyScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { history: { key: 'feed' } });
+
+            container.scrollTop = 150;
+            container.dispatchEvent(new Event('scroll'));
+            vi.advanceTimersByTime(100);
+
+            expect(history.state.feed).toEqual({ first: 1, last: 1, anchor: { id: 'b', offset: -50 } });
+
+            historyScroll.destroy();
+            vi.useRealTimers();
+        });
+    });
+
+    describe('Max items', () => {
+        const createPage = (page: number) => [0, 1, 2].map((i) => {
+            const item = document.createElement('div');
+            item.textContent = `${page}-${i}`;
+
+            return item;
+        });
+
+        const contents = () => Array.from(contentContainer.children).map((child) => child.textContent);
+
+        it('should evict whole pages at the top after a bottom load and keep the position', async () => {
+            createPage(1).forEach((item) => contentContainer.appendChild(item));
+
+            const cappedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext: async ({ page }) => createPage(page) },
+                pagination: {},
+                maxItems: 4,
+            });
+            const evictedSpy = vi.fn();
+            cappedScroll.on(PureInfiniteScrollEvent.Evicted, evictedSpy);
+
+            // Every removed item is 100px high
+            const removeChild = contentContainer.removeChild.bind(contentContainer);
+            contentContainer.removeChild = <N extends Node>(node: N) => {
+                scrollHeight -= 100;
+                return removeChild(node);
+            };
+
+            container.scrollTop = 500;
+            cappedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await cappedScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+            await flush();
+
+            expect(contents()).toEqual(['2-0', '2-1', '2-2']);
+            expect(container.scrollTop).toBe(200);
+            expect(evictedSpy).toHaveBeenCalledWith({
+                direction: PureInfiniteScrollEvent.ScrolledTop,
+                nodes: [expect.anything(), expect.anything(), expect.anything()],
+                pages: { first: 2, last: 2 },
+            });
+            expect(evictedSpy.mock.calls[0][0].nodes.map((node: Node) => node.textContent)).toEqual(['1-0', '1-1', '1-2']);
+            expect(cappedScroll.isFinished(PureInfiniteScrollEvent.ScrolledTop)).toBe(false);
+
+            cappedScroll.destroy();
+        });
+
+        it('should evict at the bottom after a top load and reload the evicted pages', async () => {
+            createPage(3).forEach((item) => contentContainer.appendChild(item));
+
+            const loadNext = vi.fn(async ({ page }: { page: number }) => createPage(page));
+            const cappedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext, loadPrevious: async ({ page }) => createPage(page) },
+                pagination: { initialPage: 3 },
+                maxItems: 3,
+            });
+
+            cappedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+            await cappedScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledTop];
+            await flush();
+
+            expect(contents()).toEqual(['2-0', '2-1', '2-2']);
+            expect(cappedScroll.pages).toEqual({ first: 2, last: 2 });
+
+            cappedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            expect(loadNext).toHaveBeenCalledWith(expect.objectContaining({ page: 3 }));
+
+            cappedScroll.destroy();
+        });
+
+        it('should not evict below the cap', async () => {
+            const cappedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext: async ({ page }) => createPage(page) },
+                maxItems: 10,
+            });
+            const evictedSpy = vi.fn();
+            cappedScroll.on(PureInfiniteScrollEvent.Evicted, evictedSpy);
+
+            cappedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await cappedScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+            await flush();
+
+            expect(contents()).toHaveLength(3);
+            expect(evictedSpy).not.toHaveBeenCalled();
+
+            cappedScroll.destroy();
+        });
+
+        it('should move the first page past the evicted one when the next pages are unknown', async () => {
+            createPage(1).forEach((item) => contentContainer.appendChild(item));
+
+            const cappedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                completion: 'manual',
+                pagination: {},
+                maxItems: 4,
+            });
+
+            // The pages added without count have no known page
+            cappedScroll.on(PureInfiniteScrollEvent.ScrolledBottom, (detail) => {
+                createPage(cappedScroll.pages.last + 1).forEach((item) => contentContainer.appendChild(item));
+                detail.done();
+            });
+
+            cappedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+
+            expect(contents()).toEqual(['2-0', '2-1', '2-2']);
+            expect(cappedScroll.pages).toEqual({ first: 2, last: 2 });
+
+            // The page of the nodes to be evicted is unknown, they are kept
+            cappedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+
+            expect(contents()).toEqual(['2-0', '2-1', '2-2', '3-0', '3-1', '3-2']);
+            expect(cappedScroll.pages).toEqual({ first: 2, last: 3 });
+
+            cappedScroll.destroy();
+        });
+    });
+
+    describe('Event details', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should describe the position in the detail of the scroll events', () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(1000);
+
+            const bottomSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            container.scrollTop = 700;
+            infiniteScroll['handleScroll']();
+            vi.setSystemTime(1050);
+            container.scrollTop = 760;
+            infiniteScroll['handleScroll']();
+
+            expect(bottomSpy).toHaveBeenCalledWith(expect.objectContaining({
+                direction: PureInfiniteScrollEvent.ScrolledBottom,
+                scrollTop: 760,
+                scrollHeight: 1000,
+                distanceToEdge: 40,
+                velocity: 1200,
+                loadCount: 0,
+                timestamp: 1050,
+            }));
+        });
+
+        it('should measure the distance to the top for "scrolledTop"', () => {
+            const topSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.ScrolledTop, topSpy);
+
+            container.scrollTop = 20;
+            infiniteScroll['handleScroll']();
+
+            expect(topSpy).toHaveBeenCalledWith(expect.objectContaining({ distanceToEdge: 20, velocity: 0 }));
+        });
+
+        it('should emit "loadStart" and "loadEnd" around a load', async () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(1000);
+
+            let resolveLoad: (items: Node[]) => void = () => {};
+            const loadingScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext: () => new Promise<Node[]>((resolve) => resolveLoad = resolve) },
+            });
+            const startSpy = vi.fn();
+            const endSpy = vi.fn();
+            loadingScroll.on(PureInfiniteScrollEvent.LoadStart, startSpy);
+            loadingScroll.on(PureInfiniteScrollEvent.LoadEnd, endSpy);
+
+            loadingScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            expect(startSpy).toHaveBeenCalledWith(expect.objectContaining({ direction: PureInfiniteScrollEvent.ScrolledBottom, page: 2, timestamp: 1000 }));
+            expect(startSpy.mock.calls[0][0].done).toBeUndefined();
+
+            vi.setSystemTime(1300);
+            resolveLoad([document.createElement('div')]);
+            await loadingScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(endSpy).toHaveBeenCalledWith({
+                direction: PureInfiniteScrollEvent.ScrolledBottom,
+                status: 'completed',
+                duration: 300,
+                loadCount: 1,
+                timestamp: 1300,
+            });
+
+            loadingScroll.destroy();
+        });
+
+        it('should report how a load ended', () => {
+            const endSpy = vi.fn();
+            infiniteScroll.on(PureInfiniteScrollEvent.LoadEnd, endSpy);
+            infiniteScroll.on(PureInfiniteScrollEvent.LoadError, () => {});
+            container.scrollTop = 400;
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            infiniteScroll.reportError(PureInfiniteScrollEvent.ScrolledBottom, new Error());
+            expect(endSpy).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'failed', loadCount: 0 }));
+
+            infiniteScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            infiniteScroll.reset();
+            expect(endSpy).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'cancelled' }));
+            expect(endSpy).toHaveBeenCalledTimes(2);
+
+            // Only the waiting events end
+            infiniteScroll.reset();
+            expect(endSpy).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('Predictive prefetch', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        const scrollTo = (scrollTop: number, time: number) => {
+            vi.setSystemTime(time);
+            container.scrollTop = scrollTop;
+            prefetchScroll['handleScroll']();
+        };
+
+        let prefetchScroll: PureInfiniteScroll;
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            scrollHeight = 5000;
+            prefetchScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                prefetch: { maxLookahead: 1500, initialLatency: 500 },
+            });
+        });
+
+        it('should load earlier when scrolling fast towards the edge', () => {
+            const bottomSpy = vi.fn();
+            prefetchScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            // 2000px/s for a 500ms latency: 1000px of lookahead
+            scrollTo(3700, 1000);
+            scrollTo(3800, 1050);
+            expect(bottomSpy).toHaveBeenCalledWith(expect.objectContaining({ distanceToEdge: 1000, velocity: 2000 }));
+        });
+
+        it('should keep the threshold when scrolling slowly or away from the edge', () => {
+            const bottomSpy = vi.fn();
+            prefetchScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            scrollTo(4000, 1000);
+            scrollTo(4005, 1050);
+            scrollTo(3800, 1100);
+            expect(bottomSpy).not.toHaveBeenCalled();
+        });
+
+        it('should use the measured latency', () => {
+            prefetchScroll['prefetcher']!.recordLatency(100);
+            const bottomSpy = vi.fn();
+            prefetchScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            // 2000px/s for a 100ms latency: 200px of lookahead
+            scrollTo(4400, 1000);
+            scrollTo(4500, 1050);
+            expect(bottomSpy).not.toHaveBeenCalled();
+
+            scrollTo(4600, 1100);
+            expect(bottomSpy).toHaveBeenCalledWith(expect.objectContaining({ distanceToEdge: 200 }));
+        });
+
+        it('should measure the latency of the completed loads', () => {
+            prefetchScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            vi.setSystemTime(Date.now() + 800);
+            prefetchScroll.appendItems([document.createElement('div')]);
+
+            expect(prefetchScroll['prefetcher']!.latency).toBe(800);
+        });
+    });
+
+    describe('Indicators', () => {
+        const indicators = {
+            loading: 'Loading',
+            error: '<button data-pure-infinite-scroll-retry>Retry</button>',
+            end: 'The end',
+        };
+
+        const indicatorState = (edge: string) => contentContainer.querySelector(`[data-pure-infinite-scroll-indicator="${edge}"]`)?.getAttribute('data-state') ?? null;
+
+        it('should show the loading indicator while a direction is waiting', () => {
+            const indicatorScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { indicators });
+            const bottomSpy = vi.fn();
+            indicatorScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            indicatorScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            expect(indicatorState('end')).toBe('loading');
+
+            bottomSpy.mock.calls[0][0].done();
+            expect(indicatorState('end')).toBeNull();
+
+            indicatorScroll.destroy();
+        });
+
+        it('should not count the indicators as new content', async () => {
+            const indicatorScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { indicators });
+            const first = document.createElement('p');
+            first.textContent = 'First';
+            contentContainer.appendChild(first);
+
+            indicatorScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+            indicatorScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            expect(indicatorScroll.state).toBe('loading');
+
+            const item = document.createElement('p');
+            contentContainer.insertBefore(item, contentContainer.lastChild);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            expect(indicatorScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+            expect(indicatorScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledTop]).toBe(true);
+            expect(contentContainer.lastChild).toBe(item);
+
+            indicatorScroll.destroy();
+        });
+
+        it('should insert the loaded content inside the indicators', async () => {
+            const indicatorScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext: async () => [document.createElement('p')] },
+                indicators,
+            });
+            indicatorScroll.finish(PureInfiniteScrollEvent.ScrolledTop);
+
+            indicatorScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await indicatorScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            expect(indicatorState('start')).toBe('end');
+            expect(contentContainer.children[1].tagName).toBe('P');
+
+            indicatorScroll.destroy();
+            expect(contentContainer.children).toHaveLength(1);
+        });
+
+        it('should show the error indicator with a retry hook', () => {
+            const indicatorScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { indicators });
+            const bottomSpy = vi.fn();
+            indicatorScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+            indicatorScroll.on(PureInfiniteScrollEvent.LoadError, () => {});
+
+            indicatorScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            indicatorScroll.reportError(PureInfiniteScrollEvent.ScrolledBottom, new Error());
+            expect(indicatorState('end')).toBe('error');
+
+            contentContainer.querySelector('button')!.click();
+            expect(bottomSpy).toHaveBeenCalledTimes(2);
+            expect(indicatorState('end')).toBe('loading');
+
+            indicatorScroll.destroy();
+        });
+
+        it('should show the end indicator until the direction is re-armed', () => {
+            const indicatorScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { indicators });
+
+            indicatorScroll.finish(PureInfiniteScrollEvent.ScrolledBottom);
+            expect(indicatorState('end')).toBe('end');
+
+            indicatorScroll.reset();
+            expect(indicatorState('end')).toBe('end');
+
+            indicatorScroll.rearm(PureInfiniteScrollEvent.ScrolledBottom);
+            expect(indicatorState('end')).not.toBe('end');
+
+            indicatorScroll.destroy();
+        });
+
+        it('should keep the position when the indicator at the top is removed', () => {
+            const indicatorScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { indicators });
+            const topSpy = vi.fn();
+            indicatorScroll.on(PureInfiniteScrollEvent.ScrolledTop, topSpy);
+
+            // The indicator is 40px high
+            const removeChild = contentContainer.removeChild.bind(contentContainer);
+            contentContainer.removeChild = <N extends Node>(node: N) => {
+                scrollHeight -= 40;
+                return removeChild(node);
+            };
+
+            container.scrollTop = 30;
+            indicatorScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+
+            container.scrollTop = 330;
+            topSpy.mock.calls[0][0].done(0);
+
+            expect(container.scrollTop).toBe(290);
+
+            indicatorScroll.destroy();
+        });
+    });
+
+    describe('Accessibility', () => {
+        it('should mark the feed as busy while a direction is waiting', () => {
+            const feedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { accessibility: true });
+            const bottomSpy = vi.fn();
+            feedScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            expect(contentContainer.getAttribute('role')).toBe('feed');
+
+            feedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            expect(contentContainer.getAttribute('aria-busy')).toBe('true');
+
+            bottomSpy.mock.calls[0][0].done();
+            expect(contentContainer.getAttribute('aria-busy')).toBe('false');
+
+            feedScroll.destroy();
+            expect(contentContainer.hasAttribute('role')).toBe(false);
+        });
+
+        it('should number and announce the loaded items', async () => {
+            const feedScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, {
+                loader: { loadNext: async () => ({ items: [document.createElement('p'), document.createElement('p')], hasMore: false }) },
+                accessibility: true,
+            });
+            contentContainer.appendChild(document.createElement('p'));
+
+            feedScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await feedScroll['loadingEvents'][PureInfiniteScrollEvent.ScrolledBottom];
+
+            const positions = Array.from(contentContainer.children).map((child) => child.getAttribute('aria-posinset'));
+            expect(positions).toEqual(['1', '2', '3']);
+            expect(contentContainer.lastElementChild!.getAttribute('aria-setsize')).toBe('3');
+            expect(document.querySelector('[aria-live="polite"]')!.textContent).toBe('3 items loaded End of the list');
+
+            feedScroll.destroy();
+        });
+    });
+
+    describe('Scheduler', () => {
+        it('should evaluate the scroll position in the pass of the scheduler', () => {
+            const scheduler = new PureInfiniteScrollScheduler();
+            const first = new PureInfiniteScroll(container, contentContainer, 50, undefined, { scheduler });
+            const second = new PureInfiniteScroll(container, contentContainer, 50, undefined, { scheduler });
+            const firstSpy = vi.fn();
+            const secondSpy = vi.fn();
+            first.on(PureInfiniteScrollEvent.ScrolledBottom, firstSpy);
+            second.on(PureInfiniteScrollEvent.ScrolledBottom, secondSpy);
+
+            container.scrollTop = 780;
+            container.dispatchEvent(new Event('scroll'));
+            container.dispatchEvent(new Event('scroll'));
+
+            expect(firstSpy).not.toHaveBeenCalled();
+
+            scheduler.flush();
+
+            expect(firstSpy).toHaveBeenCalledTimes(1);
+            expect(secondSpy).toHaveBeenCalledTimes(1);
+            expect(scheduler.stats).toEqual({ scrollEvents: 2, passes: 1, evaluations: 2 });
+
+            first.destroy();
+            second.destroy();
+        });
+
+        it('should stop the evaluation on destroy', () => {
+            const scheduler = new PureInfiniteScrollScheduler();
+            const scheduledScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { scheduler });
+            const bottomSpy = vi.fn();
+            scheduledScroll.on(PureInfiniteScrollEvent.ScrolledBottom, bottomSpy);
+
+            scheduledScroll.destroy();
+            container.scrollTop = 780;
+            container.dispatchEvent(new Event('scroll'));
+            scheduler.flush();
+
+            expect(bottomSpy).not.toHaveBeenCalled();
+            expect(scheduler.stats.scrollEvents).toBe(0);
+        });
+    });
+
+    describe('Chat mode', () => {
+        it('should only handle the start direction by default', () => {
+            const chatScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { chat: true });
+
+            expect(chatScroll.handleEvents).toEqual([PureInfiniteScrollEvent.ScrolledTop]);
+            expect(container.scrollTop).toBe(1000);
+
+            chatScroll.destroy();
+        });
+
+        it('should emit "newContentBelow" and "unreadCount" away from the end', async () => {
+            const chatScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { chat: true });
+            const newContentSpy = vi.fn();
+            const unreadSpy = vi.fn();
+            chatScroll.on(PureInfiniteScrollEvent.NewContentBelow, newContentSpy);
+            chatScroll.on(PureInfiniteScrollEvent.UnreadCount, unreadSpy);
+
+            container.scrollTop = 400;
+            container.dispatchEvent(new Event('scroll'));
+
+            contentContainer.appendChild(document.createElement('p'));
+            await flush();
+
+            expect(newContentSpy).toHaveBeenCalledWith({ count: 1, unreadCount: 1 });
+            expect(unreadSpy).toHaveBeenCalledWith({ unreadCount: 1 });
+            expect(chatScroll.unreadCount).toBe(1);
+
+            chatScroll.scrollToLatest();
+
+            expect(container.scrollTop).toBe(1000);
+            expect(chatScroll.unreadCount).toBe(0);
+            expect(unreadSpy).toHaveBeenLastCalledWith({ unreadCount: 0 });
+
+            chatScroll.destroy();
+        });
+
+        it('should scroll to the end outside the chat mode', () => {
+            infiniteScroll.scrollToLatest();
+
+            expect(container.scrollTop).toBe(1000);
+            expect(infiniteScroll.unreadCount).toBe(0);
+        });
+    });
+
+    describe('Scroll to item', () => {
+        const createItem = (id: string) => {
+            const item = document.createElement('p');
+            item.setAttribute('data-id', id);
+            return layOut(item);
+        };
+
+        it('should scroll a displayed item into view', async () => {
+            contentContainer.appendChild(createItem('a')).setAttribute('data-height', '300');
+            const item = contentContainer.appendChild(createItem('b'));
+
+            await expect(infiniteScroll.scrollToItem('b', 20)).resolves.toBe(item);
+            expect(container.scrollTop).toBe(280);
+        });
+
+        it('should reject without the loader of the page around the item', async () => {
+            await expect(infiniteScroll.scrollToItem('missing')).rejects.toThrow('PureInfiniteScroll: the item "missing" is not displayed');
+        });
+
+        it('should replace the displayed pages by the page around the item', async () => {
+            contentContainer.appendChild(createItem('a'));
+            const loadAround = vi.fn(async () => ({ items: [createItem('x'), createItem('y')], page: 5, nextCursor: 'next' }));
+            const jumpScroll = new PureInfiniteScroll(container, contentContainer, 50, [], { loader: { loadAround } });
+
+            const item = await jumpScroll.scrollToItem('y');
+
+            expect(loadAround).toHaveBeenCalledWith({ id: 'y', contentContainer });
+            expect(Array.from(contentContainer.children).map((child) => child.getAttribute('data-id'))).toEqual(['x', 'y']);
+            expect(item).toBe(contentContainer.lastChild);
+            expect(jumpScroll.pages).toEqual({ first: 5, last: 5 });
+            expect(container.scrollTop).toBe(100);
+
+            jumpScroll.destroy();
+        });
+
+        it('should append the page next to the displayed ones', async () => {
+            contentContainer.appendChild(createItem('a'));
+            const jumpScroll = new PureInfiniteScroll(container, contentContainer, 50, [], {
+                loader: { loadAround: async () => ({ items: [createItem('b')], page: 2 }) },
+            });
+
+            await jumpScroll.scrollToItem('b');
+
+            expect(Array.from(contentContainer.children).map((child) => child.getAttribute('data-id'))).toEqual(['a', 'b']);
+            expect(jumpScroll.pages).toEqual({ first: 1, last: 2 });
+
+            jumpScroll.destroy();
+        });
+
+        it('should reject when the item can not be found', async () => {
+            const jumpScroll = new PureInfiniteScroll(container, contentContainer, 50, [], {
+                loader: { loadAround: async () => null },
+            });
+
+            await expect(jumpScroll.scrollToItem('missing')).rejects.toThrow('PureInfiniteScroll: the item "missing" could not be found.');
+
+            jumpScroll.destroy();
+        });
+
+        it('should reject when the loader throws synchronously', async () => {
+            const jumpScroll = new PureInfiniteScroll(container, contentContainer, 50, [], {
+                loader: {
+                    loadAround: () => {
+                        throw new Error('Invalid id');
+                    },
+                },
+            });
+
+            await expect(jumpScroll.scrollToItem('missing')).rejects.toThrow('Invalid id');
+
+            jumpScroll.destroy();
+        });
+
+        it('should reject the superseded calls', async () => {
+            const jumpScroll = new PureInfiniteScroll(container, contentContainer, 50, [], {
+                loader: { loadAround: async ({ id }) => ({ items: [createItem(id)], page: 10 }) },
+            });
+
+            const first = jumpScroll.scrollToItem('first');
+            const second = jumpScroll.scrollToItem('second');
+
+            await expect(first).rejects.toThrow('was superseded');
+            await expect(second).resolves.toBe(contentContainer.firstChild);
+
+            jumpScroll.destroy();
+        });
+    });
+
+    describe('Content detection', () => {
+        it('should complete on the items added at the edge of the event only', async () => {
+            const first = document.createElement('p');
+            contentContainer.appendChild(first);
+            const detectionScroll = new PureInfiniteScroll(container, contentContainer, 50);
+
+            detectionScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+
+            // Structurally identical to the last item, but prepended
+            contentContainer.insertBefore(document.createElement('p'), first);
+            await flush();
+            expect(detectionScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(true);
+
+            contentContainer.appendChild(document.createElement('p'));
+            await flush();
+            expect(detectionScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+
+            detectionScroll.destroy();
+        });
+
+        it('should only count the items matching the item selector', async () => {
+            const detectionScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { itemSelector: '.item' });
+
+            detectionScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+
+            contentContainer.appendChild(document.createElement('hr'));
+            await flush();
+            expect(detectionScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(true);
+
+            const item = document.createElement('p');
+            item.className = 'item';
+            contentContainer.appendChild(item);
+            await flush();
+            expect(detectionScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+
+            detectionScroll.destroy();
+        });
+
+        it('should detect the items added in an open shadow root with the subtree', async () => {
+            const host = contentContainer.appendChild(document.createElement('div'));
+            const shadowRoot = host.attachShadow({ mode: 'open' });
+            const detectionScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { itemSelector: '.item', observeSubtree: true });
+
+            detectionScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+
+            const item = document.createElement('p');
+            item.className = 'item';
+            shadowRoot.appendChild(item);
+            await flush();
+
+            expect(detectionScroll['isWaitingEvents'][PureInfiniteScrollEvent.ScrolledBottom]).toBe(false);
+
+            detectionScroll.destroy();
+        });
+
+        it('should record the first visible item nested in a wrapper in the history', () => {
+            vi.useFakeTimers();
+
+            const wrapper = contentContainer.appendChild(document.createElement('section'));
+            ['a', 'b'].forEach((id) => {
+                const item = wrapper.appendChild(document.createElement('p'));
+                item.className = 'item';
+                item.setAttribute('data-id', id);
+                layOut(item);
+            });
+
+            const detectionScroll = new PureInfiniteScroll(container, contentContainer, 50, undefined, { history: { key: 'nested' }, itemSelector: '.item', observeSubtree: true });
+
+            container.scrollTop = 150;
+            container.dispatchEvent(new Event('scroll'));
+            vi.advanceTimersByTime(100);
+
+            expect(history.state.nested).toEqual({ first: 1, last: 1, anchor: { id: 'b', offset: -50 } });
+
+            detectionScroll.destroy();
+            vi.useRealTimers();
+        });
+    });
+
+    describe('Keyed items', () => {
+        const getKey = (item: Item | Node) => item instanceof Element ? item.getAttribute('data-id') : (item as Item).id;
+
+        let keyedScroll: PureInfiniteScroll<Item>;
+
+        beforeEach(() => {
+            ['a', 'b', 'c', 'd'].forEach((id) => contentContainer.appendChild(render({ id })));
+            keyedScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [], { render, getKey });
+        });
+
+        afterEach(() => {
+            keyedScroll.destroy();
+        });
+
+        it('should drop the duplicates of the loaded items', () => {
+            keyedScroll.appendItems([{ id: 'd' }, { id: 'e' }, { id: 'e' }]);
+            keyedScroll.prependItems([{ id: 'z' }, { id: 'a' }]);
+
+            expect(ids()).toEqual(['z', 'a', 'b', 'c', 'd', 'e']);
+        });
+
+        it('should drop the duplicates of the pages loaded by the loader', async () => {
+            const loadScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], {
+                render,
+                getKey,
+                loader: { loadNext: async () => [{ id: 'c' }, { id: 'd' }, { id: 'e' }] },
+            });
+
+            loadScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+
+            expect(ids()).toEqual(['a', 'b', 'c', 'd', 'e']);
+
+            loadScroll.destroy();
+        });
+
+        it('should update an item in place, keeping the visible content in place', () => {
+            container.scrollTop = 250;
+
+            expect(keyedScroll.updateItem('a', { id: 'a', height: 300 })).toBe(true);
+
+            expect(ids()).toEqual(['a', 'b', 'c', 'd']);
+            expect(contentContainer.firstElementChild!.getAttribute('data-height')).toBe('300');
+            expect(container.scrollTop).toBe(450);
+        });
+
+        it('should remove an item, keeping the visible content in place', () => {
+            container.scrollTop = 250;
+
+            expect(keyedScroll.removeItem('b')).toBe(true);
+            expect(ids()).toEqual(['a', 'c', 'd']);
+            expect(container.scrollTop).toBe(150);
+
+            expect(keyedScroll.removeItem('b')).toBe(false);
+        });
+
+        it('should keep the next item in place when removing the visible one', () => {
+            container.scrollTop = 250;
+
+            keyedScroll.removeItem('c');
+
+            expect(ids()).toEqual(['a', 'b', 'd']);
+            expect(container.scrollTop).toBe(150);
+        });
+
+        it('should render again the removed items', () => {
+            keyedScroll.removeItem('d');
+            keyedScroll.appendItems([{ id: 'd' }]);
+
+            expect(ids()).toEqual(['a', 'b', 'c', 'd']);
+        });
+
+        it('should require the key function and the regular mode', () => {
+            const virtualScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [], { virtual: { itemHeight: 20 }, render, getKey });
+
+            expect(() => infiniteScroll.updateItem('a', { id: 'a' })).toThrow('PureInfiniteScroll: a `getKey` function is required to use `updateItem`.');
+            expect(() => virtualScroll.removeItem('a')).toThrow('PureInfiniteScroll: `removeItem` is not supported in virtual mode.');
+
+            virtualScroll.destroy();
+        });
+
+        it('should drop the duplicates in virtual mode', () => {
+            const virtualScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [], { virtual: { itemHeight: 20 }, render, getKey });
+
+            virtualScroll.appendItems([{ id: 'x' }, { id: 'y' }]);
+            virtualScroll.appendItems([{ id: 'y' }, { id: 'z' }]);
+
+            expect(virtualScroll['virtualList']!.length).toBe(3);
+
+            virtualScroll.destroy();
+        });
+    });
+
+    describe('Page cache', () => {
+        let storage: PureInfiniteScrollMemoryStorage;
+
+        beforeEach(() => {
+            storage = new PureInfiniteScrollMemoryStorage();
+        });
+
+        it('should insert the cached pages without loading them again', async () => {
+            const loadNext = vi.fn(async () => [{ id: 'a' }, { id: 'b' }]);
+            const options = { render, loader: { loadNext }, cache: { id: 'list', storage } };
+
+            const firstScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], options);
+            firstScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+            firstScroll.destroy();
+
+            contentContainer.innerHTML = '';
+
+            const secondScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], options);
+            secondScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+
+            expect(loadNext).toHaveBeenCalledTimes(1);
+            expect(ids()).toEqual(['a', 'b']);
+            expect(secondScroll.pages).toEqual({ first: 1, last: 2 });
+
+            secondScroll.destroy();
+        });
+
+        it('should load the expired pages again', async () => {
+            new PageCache<Item>({ id: 'list', storage }).set('end', 2, null, { items: [{ id: 'old' }] });
+            const loadNext = vi.fn(async () => [{ id: 'new' }]);
+
+            const cacheScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], {
+                render,
+                loader: { loadNext },
+                cache: { id: 'list', storage, ttl: 0 },
+            });
+            cacheScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+
+            expect(loadNext).toHaveBeenCalledTimes(1);
+            expect(ids()).toEqual(['new']);
+
+            cacheScroll.destroy();
+        });
+
+        it('should render the stale pages and swap in the fresh ones without shifting the visible content', async () => {
+            ['x', 'y'].forEach((id) => contentContainer.appendChild(render({ id })));
+            new PageCache<Item>({ id: 'list', storage }).set('end', 2, null, { items: [{ id: 'a' }, { id: 'b' }] });
+
+            let resolveLoad: (items: Item[]) => void = () => {};
+            const loadNext = vi.fn(() => new Promise<Item[]>((resolve) => resolveLoad = resolve));
+
+            const cacheScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], {
+                render,
+                loader: { loadNext },
+                cache: { id: 'list', storage, ttl: 0, staleWhileRevalidate: true },
+            });
+            cacheScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+
+            expect(ids()).toEqual(['x', 'y', 'a', 'b']);
+            expect(cacheScroll.isLoading(PureInfiniteScrollEvent.ScrolledBottom)).toBe(false);
+            expect(loadNext).toHaveBeenCalledTimes(1);
+
+            container.scrollTop = 250;
+            resolveLoad([{ id: 'new', height: 200 }, { id: 'a' }, { id: 'b' }]);
+            await flush();
+
+            expect(ids()).toEqual(['x', 'y', 'new', 'a', 'b']);
+            expect(container.scrollTop).toBe(450);
+            expect(new PageCache<Item>({ id: 'list', storage }).get('end', 2, null)?.result.items).toHaveLength(3);
+
+            cacheScroll.destroy();
+        });
+
+        it('should load again a page cached at the end once evicted and reloaded at the start', async () => {
+            ['1-a', '1-b'].forEach((id) => contentContainer.appendChild(render({ id })));
+
+            // The end is finished at each page, until new content is available
+            const loadNext = vi.fn(async ({ page }: { page: number }) => ({ items: [{ id: `${page}-a` }, { id: `${page}-b` }], hasMore: false }));
+            const loadPrevious = vi.fn(async ({ page }: { page: number }) => ({ items: [{ id: `${page}-a` }, { id: `${page}-b` }] }));
+            const cacheScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, undefined, {
+                render,
+                loader: { loadNext, loadPrevious },
+                cache: { id: 'list', storage },
+                pagination: {},
+                maxItems: 2,
+            });
+
+            // Away from both edges, only the emitted events load
+            container.scrollTop = 400;
+            cacheScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+            cacheScroll.rearm(PureInfiniteScrollEvent.ScrolledBottom);
+            cacheScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+
+            expect(ids()).toEqual(['3-a', '3-b']);
+
+            cacheScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledTop);
+            await flush();
+
+            expect(loadPrevious).toHaveBeenCalledWith(expect.objectContaining({ page: 2 }));
+            expect(ids()).toEqual(['2-a', '2-b']);
+            expect(cacheScroll.isFinished(PureInfiniteScrollEvent.ScrolledTop)).toBe(false);
+
+            cacheScroll.destroy();
+        });
+
+        it('should keep the stale page when the revalidation fails', async () => {
+            new PageCache<Item>({ id: 'list', storage }).set('end', 2, null, { items: [{ id: 'a' }] });
+            const errorSpy = vi.fn();
+
+            const cacheScroll = new PureInfiniteScroll<Item>(container, contentContainer, 50, [PureInfiniteScrollEvent.ScrolledBottom], {
+                render,
+                loader: { loadNext: async () => { throw new Error('offline'); } },
+                cache: { id: 'list', storage, ttl: 0, staleWhileRevalidate: true },
+            });
+            cacheScroll.on(PureInfiniteScrollEvent.LoadError, errorSpy);
+            cacheScroll['emitEvent'](PureInfiniteScrollEvent.ScrolledBottom);
+            await flush();
+
+            expect(ids()).toEqual(['a']);
+            expect(errorSpy).not.toHaveBeenCalled();
+
+            cacheScroll.destroy();
+        });
+    });
 });
@@ -0,0 +1,66 @@
+import { KeyRegistry } from "../src/keys";
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+describe('KeyRegistry', () => {
+    let contentContainer: HTMLElement;
+    let registry: KeyRegistry<{ id: string }>;
+
+    const render = (item: { id: string }) => {
+        const element = document.createElement('div');
+        element.setAttribute('data-id', item.id);
+        return element;
+    };
+
+    beforeEach(() => {
+        contentContainer = document.createElement('div');
+        document.body.appendChild(contentContainer);
+        registry = new KeyRegistry((item) => item instanceof Node ? (item as Element).getAttribute?.('data-id') ?? null : item.id, contentContainer);
+    });
+
+    afterEach(() => {
+        document.body.removeChild(contentContainer);
+    });
+
+    it('should drop the rendered keys and the repeated ones', () => {
+        const node = contentContainer.appendChild(render({ id: 'a' }));
+        registry.register([node], [node]);
+
+        expect(registry.filter([{ id: 'a' }, { id: 'b' }, { id: 'b' }, { id: 'c' }])).toEqual([{ id: 'b' }, { id: 'c' }]);
+    });
+
+    it('should keep the items without key', () => {
+        const untracked = document.createTextNode('text');
+
+        expect(registry.filter([untracked, untracked])).toEqual([untracked, untracked]);
+    });
+
+    it('should forget the nodes removed from the content container', () => {
+        const node = contentContainer.appendChild(render({ id: 'a' }));
+        registry.register([{ id: 'a' }], [node]);
+
+        expect(registry.get('a')).toBe(node);
+
+        contentContainer.removeChild(node);
+
+        expect(registry.get('a')).toBeNull();
+        expect(registry.filter([{ id: 'a' }])).toEqual([{ id: 'a' }]);
+    });
+
+    it('should keep the keys registered without nodes', () => {
+        registry.register([{ id: 'a' }]);
+
+        expect(registry.get('a')).toBeNull();
+        expect(registry.filter([{ id: 'a' }])).toEqual([]);
+    });
+
+    it('should replace and forget the node of a key', () => {
+        const node = contentContainer.appendChild(render({ id: 'a' }));
+        registry.set('a', node);
+
+        expect(registry.get('a')).toBe(node);
+
+        registry.delete('a');
+
+        expect(registry.filter([{ id: 'a' }])).toEqual([{ id: 'a' }]);
+    });
+});
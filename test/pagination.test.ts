@@ -0,0 +1,114 @@
+import { PaginationController } from "../src/pagination";
+import { describe, expect, it } from 'vitest';
+
+describe('PaginationController', () => {
+    describe('Page numbers', () => {
+        it('should request the pages around the displayed range', () => {
+            const pagination = new PaginationController({ initialPage: 5 });
+
+            expect(pagination.getPage('end')).toEqual({ page: 6, cursor: null });
+            expect(pagination.getPage('start')).toEqual({ page: 4, cursor: null });
+        });
+
+        it('should extend the range when advancing', () => {
+            const pagination = new PaginationController({ initialPage: 5 });
+
+            pagination.advance('end');
+            pagination.advance('end');
+            pagination.advance('start');
+
+            expect(pagination.range).toEqual({ first: 4, last: 7 });
+            expect(pagination.getPage('end').page).toBe(8);
+        });
+
+        it('should finish the start once the first page is displayed', () => {
+            expect(new PaginationController({}).isFinished('start')).toBe(true);
+
+            const pagination = new PaginationController({ initialPage: 2 });
+            expect(pagination.isFinished('start')).toBe(false);
+            expect(pagination.advance('start')).toBe(true);
+            expect(pagination.isFinished('start')).toBe(true);
+        });
+
+        it('should not finish any edge without options', () => {
+            const pagination = new PaginationController();
+
+            expect(pagination.isFinished('start')).toBe(false);
+            expect(pagination.advance('start')).toBe(false);
+            expect(pagination.isFinished('end')).toBe(false);
+        });
+    });
+
+    describe('Cursors', () => {
+        it('should pass the cursors of each edge', () => {
+            const pagination = new PaginationController({ nextCursor: 'next', previousCursor: 'previous' });
+
+            expect(pagination.getPage('end')).toEqual({ page: 2, cursor: 'next' });
+            expect(pagination.getPage('start')).toEqual({ page: 0, cursor: 'previous' });
+        });
+
+        it('should update the cursor when advancing', () => {
+            const pagination = new PaginationController({ nextCursor: 'a' });
+
+            expect(pagination.advance('end', 'b')).toBe(false);
+            expect(pagination.getPage('end').cursor).toBe('b');
+        });
+
+        it('should finish an edge when its cursor becomes null', () => {
+            const pagination = new PaginationController({ nextCursor: 'a' });
+
+            expect(pagination.advance('end', null)).toBe(true);
+            expect(pagination.isFinished('end')).toBe(true);
+        });
+
+        it('should finish an edge initialized with a null cursor', () => {
+            expect(new PaginationController({ previousCursor: null }).isFinished('start')).toBe(true);
+        });
+    });
+
+    describe('Finish and rearm', () => {
+        it('should report whether finishing changed the state', () => {
+            const pagination = new PaginationController();
+
+            expect(pagination.finish('end')).toBe(true);
+            expect(pagination.finish('end')).toBe(false);
+        });
+
+        it('should re-arm an edge with a new cursor', () => {
+            const pagination = new PaginationController({ nextCursor: null });
+
+            pagination.rearm('end', 'c');
+
+            expect(pagination.isFinished('end')).toBe(false);
+            expect(pagination.getPage('end').cursor).toBe('c');
+        });
+
+        it('should move a trimmed edge back and re-arm it', () => {
+            const pagination = new PaginationController({});
+            pagination.advance('end');
+            pagination.advance('end');
+
+            pagination.trim('start', 3);
+
+            expect(pagination.range).toEqual({ first: 3, last: 3 });
+            expect(pagination.isFinished('start')).toBe(false);
+            expect(pagination.getPage('start').page).toBe(2);
+        });
+
+        it('should reset both edges to a single page', () => {
+            const pagination = new PaginationController({ nextCursor: 'a' });
+            pagination.advance('end', null);
+
+            pagination.reset(7, 'p', 'n');
+
+            expect(pagination.range).toEqual({ first: 7, last: 7 });
+            expect(pagination.isFinished('start')).toBe(false);
+            expect(pagination.isFinished('end')).toBe(false);
+            expect(pagination.getPage('end')).toEqual({ page: 8, cursor: 'n' });
+
+            pagination.reset(1);
+            expect(pagination.isFinished('start')).toBe(false);
+            expect(pagination.getPage('start').cursor).toBe('p');
+        });
+    });
+});
@@ -0,0 +1,33 @@
+import { Prefetcher } from "../src/prefetch";
+import { describe, expect, it } from 'vitest';
+
+describe('Prefetcher', () => {
+    it('should cover the distance travelled during the latency', () => {
+        const prefetcher = new Prefetcher({ initialLatency: 500 });
+
+        // 2000px/s for 500ms
+        expect(prefetcher.getLookahead(2000, 50)).toBe(1000);
+    });
+
+    it('should keep the lookahead between the minimum and the maximum', () => {
+        const prefetcher = new Prefetcher({ minLookahead: 100, maxLookahead: 800, initialLatency: 500 });
+
+        expect(prefetcher.getLookahead(0, 50)).toBe(100);
+        expect(prefetcher.getLookahead(-3000, 50)).toBe(100);
+        expect(prefetcher.getLookahead(10000, 50)).toBe(800);
+    });
+
+    it('should use the threshold as the default minimum', () => {
+        expect(new Prefetcher().getLookahead(0, 150)).toBe(150);
+    });
+
+    it('should average the measured latencies', () => {
+        const prefetcher = new Prefetcher({ initialLatency: 1000 });
+
+        prefetcher.recordLatency(200);
+        expect(prefetcher.latency).toBe(200);
+
+        prefetcher.recordLatency(1200);
+        expect(prefetcher.latency).toBe(500);
+    });
+});
@@ -0,0 +1,29 @@
+import { getRetryDelay } from "../src/retry";
+import { describe, expect, it } from 'vitest';
+
+describe('getRetryDelay', () => {
+    it('should grow the delay exponentially', () => {
+        const options = { delay: 100, factor: 2, jitter: 0 };
+
+        expect(getRetryDelay(1, options)).toBe(100);
+        expect(getRetryDelay(2, options)).toBe(200);
+        expect(getRetryDelay(3, options)).toBe(400);
+    });
+
+    it('should cap the delay', () => {
+        expect(getRetryDelay(10, { delay: 100, maxDelay: 1000, jitter: 0 })).toBe(1000);
+    });
+
+    it('should randomize the jitter fraction of the delay', () => {
+        const options = { delay: 1000, jitter: 0.5 };
+
+        expect(getRetryDelay(1, options, () => 0)).toBe(500);
+        expect(getRetryDelay(1, options, () => 0.5)).toBe(750);
+        expect(getRetryDelay(1, options, () => 1)).toBe(1000);
+    });
+
+    it('should use the defaults', () => {
+        expect(getRetryDelay(1, {}, () => 1)).toBe(1000);
+        expect(getRetryDelay(2, {}, () => 1)).toBe(2000);
+    });
+});
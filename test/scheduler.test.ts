@@ -0,0 +1,139 @@
+import { PureInfiniteScrollScheduler } from "../src/scheduler";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('PureInfiniteScrollScheduler', () => {
+    let target: HTMLElement;
+
+    const createTask = (log: string[], name: string) => ({
+        read: vi.fn(() => {
+            log.push(`read ${name}`);
+            return name;
+        }),
+        write: vi.fn((result: string) => {
+            log.push(`write ${result}`);
+        }),
+    });
+
+    const scroll = () => target.dispatchEvent(new Event('scroll'));
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal('requestAnimationFrame', (callback: () => void) => setTimeout(callback, 16));
+        target = document.createElement('div');
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('should listen once per target with a passive listener', () => {
+        const addEventListener = vi.spyOn(target, 'addEventListener');
+        const removeEventListener = vi.spyOn(target, 'removeEventListener');
+        const scheduler = new PureInfiniteScrollScheduler();
+
+        const unregisterFirst = scheduler.register(target, createTask([], 'first'));
+        const unregisterSecond = scheduler.register(target, createTask([], 'second'));
+
+        expect(addEventListener).toHaveBeenCalledTimes(1);
+        expect(addEventListener).toHaveBeenCalledWith('scroll', expect.any(Function), { passive: true });
+
+        unregisterFirst();
+        expect(removeEventListener).not.toHaveBeenCalled();
+
+        unregisterSecond();
+        expect(removeEventListener).toHaveBeenCalledWith('scroll', addEventListener.mock.calls[0][1]);
+    });
+
+    it('should run all the reads before the writes in one frame', () => {
+        const log: string[] = [];
+        const scheduler = new PureInfiniteScrollScheduler();
+        scheduler.register(target, createTask(log, 'first'));
+        scheduler.register(target, createTask(log, 'second'));
+
+        scroll();
+        scroll();
+        scroll();
+        expect(log).toEqual([]);
+
+        vi.advanceTimersToNextTimer();
+
+        expect(log).toEqual(['read first', 'read second', 'write first', 'write second']);
+        expect(scheduler.stats).toEqual({ scrollEvents: 3, passes: 1, evaluations: 2 });
+    });
+
+    it('should only evaluate the tasks of the scrolled targets', () => {
+        const log: string[] = [];
+        const otherTarget = document.createElement('div');
+        const scheduler = new PureInfiniteScrollScheduler();
+        scheduler.register(target, createTask(log, 'first'));
+        scheduler.register(otherTarget, createTask(log, 'other'));
+
+        scroll();
+        scheduler.flush();
+
+        expect(log).toEqual(['read first', 'write first']);
+    });
+
+    it('should throttle the passes', () => {
+        const task = createTask([], 'task');
+        const scheduler = new PureInfiniteScrollScheduler({ throttle: 100 });
+        scheduler.register(target, task);
+
+        scroll();
+        vi.advanceTimersByTime(20);
+        expect(task.read).toHaveBeenCalledTimes(1);
+
+        scroll();
+        vi.advanceTimersByTime(50);
+        expect(task.read).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(100);
+        expect(task.read).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait until the scrolling stopped when debouncing', () => {
+        const task = createTask([], 'task');
+        const scheduler = new PureInfiniteScrollScheduler({ debounce: 100 });
+        scheduler.register(target, task);
+
+        for (let i = 0; i < 5; i++) {
+            scroll();
+            vi.advanceTimersByTime(50);
+        }
+
+        expect(task.read).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(100);
+        expect(task.read).toHaveBeenCalledTimes(1);
+        expect(scheduler.stats.scrollEvents).toBe(5);
+    });
+
+    it('should not evaluate the unregistered tasks', () => {
+        const task = createTask([], 'task');
+        const scheduler = new PureInfiniteScrollScheduler();
+        const unregister = scheduler.register(target, task);
+        scheduler.register(target, createTask([], 'other'));
+
+        scroll();
+        unregister();
+        scheduler.flush();
+
+        expect(task.read).not.toHaveBeenCalled();
+    });
+
+    it('should reset the stats', () => {
+        const scheduler = new PureInfiniteScrollScheduler();
+        scheduler.register(target, createTask([], 'task'));
+
+        scroll();
+        scheduler.flush();
+        scheduler.resetStats();
+
+        expect(scheduler.stats).toEqual({ scrollEvents: 0, passes: 0, evaluations: 0 });
+    });
+
+    it('should share a default scheduler', () => {
+        expect(PureInfiniteScrollScheduler.shared).toBe(PureInfiniteScrollScheduler.shared);
+    });
+});
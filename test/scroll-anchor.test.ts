@@ -0,0 +1,180 @@
+import { ScrollAnchor } from "../src/scroll-anchor";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('ScrollAnchor', () => {
+    let container: HTMLElement;
+    let contentContainer: HTMLElement;
+    let heights: Map<Element, number>;
+
+    // Lays the children out one after the other, scrolled by the scroll top of the container
+    const mockLayout = () => {
+        Array.prototype.forEach.call(contentContainer.children, (child: HTMLElement) => {
+            child.getBoundingClientRect = () => {
+                let top = -container.scrollTop;
+
+                for (let node = child.previousElementSibling; node; node = node.previousElementSibling) {
+                    top += heights.get(node) ?? 0;
+                }
+
+                return { top, bottom: top + (heights.get(child) ?? 0), left: 0, right: 100 } as DOMRect;
+            };
+        });
+    };
+
+    const createItem = (height: number) => {
+        const item = document.createElement('div');
+        heights.set(item, height);
+
+        return item;
+    };
+
+    const getItems = () => Array.from(contentContainer.children);
+
+    const prepend = (...items: HTMLElement[]) => {
+        items.reverse().forEach((item) => contentContainer.insertBefore(item, contentContainer.firstChild));
+        mockLayout();
+    };
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        contentContainer = document.createElement('div');
+        heights = new Map();
+
+        container.appendChild(contentContainer);
+        document.body.appendChild(container);
+
+        Object.defineProperty(container, 'clientHeight', { value: 200 });
+        Object.defineProperty(container, 'scrollHeight', { value: 10000 });
+        container.getBoundingClientRect = () => ({ top: 0, left: 0 }) as DOMRect;
+
+        for (let i = 0; i < 10; i++) {
+            contentContainer.appendChild(createItem(100));
+        }
+
+        mockLayout();
+    });
+
+    afterEach(() => {
+        document.body.removeChild(container);
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('should keep the first visible item in place after a prepend', () => {
+        const anchor = new ScrollAnchor(container, contentContainer, 'vertical', getItems);
+        const firstVisible = contentContainer.children[3];
+
+        container.scrollTop = 320;
+        anchor.capture();
+        prepend(createItem(150), createItem(50));
+        anchor.restore();
+
+        expect(container.scrollTop).toBe(520);
+        expect(firstVisible.getBoundingClientRect().top).toBe(-20);
+    });
+
+    it('should ignore the children which are not content', () => {
+        const ignored = contentContainer.children[3];
+        const anchor = new ScrollAnchor(container, contentContainer, 'vertical', () => getItems().filter((item) => item !== ignored));
+
+        container.scrollTop = 320;
+        anchor.capture();
+
+        // The next visible item is the anchor, removing the ignored one moves it up
+        contentContainer.removeChild(ignored);
+        mockLayout();
+        anchor.restore();
+
+        expect(container.scrollTop).toBe(220);
+    });
+
+    it('should anchor the items nested in wrappers', () => {
+        const wrapper = document.createElement('section');
+        contentContainer.innerHTML = '';
+        contentContainer.appendChild(wrapper);
+
+        const getNestedItems = () => Array.from(wrapper.children);
+        const layoutNestedItems = () => getNestedItems().forEach((item, index) => {
+            item.getBoundingClientRect = () => ({ top: index * 100 - container.scrollTop, bottom: (index + 1) * 100 - container.scrollTop }) as DOMRect;
+        });
+
+        for (let i = 0; i < 5; i++) {
+            wrapper.appendChild(createItem(100));
+        }
+        layoutNestedItems();
+
+        const anchor = new ScrollAnchor(container, contentContainer, 'vertical', getNestedItems);
+        container.scrollTop = 150;
+        anchor.capture();
+
+        wrapper.insertBefore(createItem(100), wrapper.firstChild);
+        wrapper.insertBefore(createItem(100), wrapper.firstChild);
+        layoutNestedItems();
+        anchor.restore();
+
+        expect(container.scrollTop).toBe(350);
+    });
+
+    it('should fall back to the next visible item when the anchor is removed', () => {
+        const anchor = new ScrollAnchor(container, contentContainer, 'vertical', getItems);
+
+        container.scrollTop = 320;
+        anchor.capture();
+
+        contentContainer.removeChild(contentContainer.children[3]);
+        prepend(createItem(100));
+        anchor.restore();
+
+        // The item after the removed one stays 80px below the top of the visible area
+        expect(container.scrollTop).toBe(320);
+    });
+
+    it('should re-pin the anchor when the content resizes during the settle time', () => {
+        vi.useFakeTimers();
+
+        let resizeCallback: () => void = () => {};
+        const disconnect = vi.fn();
+        vi.stubGlobal('ResizeObserver', class {
+            constructor(callback: () => void) {
+                resizeCallback = callback;
+            }
+            observe() {}
+            disconnect = disconnect;
+        });
+
+        const anchor = new ScrollAnchor(container, contentContainer, 'vertical', getItems, { settleTime: 500 });
+        const image = createItem(0);
+
+        container.scrollTop = 320;
+        anchor.capture();
+        prepend(image);
+        anchor.pin();
+
+        // An image above the visible area loads late
+        heights.set(image, 300);
+        resizeCallback();
+        expect(container.scrollTop).toBe(620);
+
+        vi.advanceTimersByTime(500);
+        expect(disconnect).toHaveBeenCalled();
+    });
+
+    it('should follow the user scrolling during the settle time', () => {
+        const anchor = new ScrollAnchor(container, contentContainer, 'vertical', getItems);
+        const image = createItem(0);
+
+        container.scrollTop = 320;
+        anchor.capture();
+        prepend(image);
+        anchor.pin();
+
+        container.scrollTop = 400;
+        container.dispatchEvent(new Event('scroll'));
+
+        heights.set(image, 100);
+        anchor.restore();
+
+        expect(container.scrollTop).toBe(500);
+        anchor.disconnect();
+    });
+});
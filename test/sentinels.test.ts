@@ -0,0 +1,95 @@
+import { SentinelObserver } from "../src/sentinels";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('SentinelObserver', () => {
+    let container: HTMLElement;
+    let contentContainer: HTMLElement;
+    let intersectionCallback: (entries: Partial<IntersectionObserverEntry>[]) => void;
+    let intersectionOptions: IntersectionObserverInit;
+    let observe: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        contentContainer = document.createElement('div');
+        contentContainer.appendChild(document.createElement('p'));
+
+        container.appendChild(contentContainer);
+        document.body.appendChild(container);
+
+        observe = vi.fn();
+        vi.stubGlobal('IntersectionObserver', class {
+            constructor(callback: typeof intersectionCallback, options: IntersectionObserverInit) {
+                intersectionCallback = callback;
+                intersectionOptions = options;
+            }
+            observe = observe;
+            unobserve() {}
+            disconnect() {}
+        });
+    });
+
+    afterEach(() => {
+        document.body.removeChild(container);
+        vi.unstubAllGlobals();
+    });
+
+    it('should place the sentinels at both ends of the content', () => {
+        const sentinelObserver = new SentinelObserver(container, contentContainer, 'vertical', 50, vi.fn());
+
+        expect(contentContainer.firstChild).toBe(sentinelObserver.start);
+        expect(contentContainer.lastChild).toBe(sentinelObserver.end);
+        expect(observe).toHaveBeenCalledWith(sentinelObserver.start);
+        expect(observe).toHaveBeenCalledWith(sentinelObserver.end);
+    });
+
+    it('should accept provided sentinels', () => {
+        const start = document.createElement('span');
+        const end = document.createElement('span');
+        const sentinelObserver = new SentinelObserver(container, contentContainer, 'vertical', 50, vi.fn(), { start, end });
+
+        expect(sentinelObserver.getEdge(start)).toBe('start');
+        expect(sentinelObserver.getEdge(end)).toBe('end');
+        expect(sentinelObserver.getEdge(contentContainer.children[1])).toBeNull();
+    });
+
+    it('should derive the root margin from the threshold and axis', () => {
+        new SentinelObserver(container, contentContainer, 'vertical', 50, vi.fn()).disconnect();
+        expect(intersectionOptions).toEqual({ root: container, rootMargin: '50px 0px 50px 0px' });
+
+        new SentinelObserver(container, contentContainer, 'horizontal', 20, vi.fn()).disconnect();
+        expect(intersectionOptions.rootMargin).toBe('0px 20px 0px 20px');
+    });
+
+    it('should report the edge of intersecting sentinels only', () => {
+        const callback = vi.fn();
+        const sentinelObserver = new SentinelObserver(container, contentContainer, 'vertical', 50, callback);
+
+        intersectionCallback([
+            { target: sentinelObserver.start, isIntersecting: false },
+            { target: sentinelObserver.end, isIntersecting: true },
+        ]);
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith('end');
+    });
+
+    it('should move the sentinels back to the ends when content is inserted around them', async () => {
+        const sentinelObserver = new SentinelObserver(container, contentContainer, 'vertical', 50, vi.fn());
+
+        contentContainer.appendChild(document.createElement('p'));
+        contentContainer.insertBefore(document.createElement('p'), contentContainer.firstChild);
+
+        await new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+        expect(contentContainer.firstChild).toBe(sentinelObserver.start);
+        expect(contentContainer.lastChild).toBe(sentinelObserver.end);
+        expect(contentContainer.children.length).toBe(5);
+    });
+
+    it('should remove the generated sentinels on disconnect', () => {
+        const sentinelObserver = new SentinelObserver(container, contentContainer, 'vertical', 50, vi.fn());
+        sentinelObserver.disconnect();
+
+        expect(contentContainer.children.length).toBe(1);
+    });
+});
@@ -0,0 +1,93 @@
+import { PureInfiniteScrollEvent } from "../src/events";
+import { PureInfiniteScrollHarness } from "../src/testing";
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const nativeGetBoundingClientRect = Element.prototype.getBoundingClientRect;
+
+describe('PureInfiniteScrollHarness', () => {
+    let harness: PureInfiniteScrollHarness;
+
+    beforeEach(() => {
+        harness = new PureInfiniteScrollHarness();
+    });
+
+    afterEach(() => {
+        harness.destroy();
+    });
+
+    it('should derive the scroll geometry from the items', () => {
+        expect(harness.container.scrollHeight).toBe(200);
+        expect(harness.container.clientHeight).toBe(200);
+
+        harness.addItems(5);
+
+        expect(harness.container.scrollHeight).toBe(500);
+        expect(harness.contentContainer.children[1].getBoundingClientRect().top).toBe(100);
+    });
+
+    it('should scroll within the scrollable range', () => {
+        harness.addItems(5);
+
+        harness.scrollTo('bottom');
+        expect(harness.container.scrollTop).toBe(300);
+        expect(harness.contentContainer.children[3].getBoundingClientRect().top).toBe(0);
+
+        harness.scrollBy(-50);
+        expect(harness.scrollOffset).toBe(250);
+
+        harness.container.scrollTop = -10;
+        expect(harness.container.scrollTop).toBe(0);
+    });
+
+    it('should add items at both edges with distinct ids', () => {
+        harness.addItems(2);
+        harness.addItems(1, 'start');
+
+        expect(harness.items.map((item) => item.getAttribute('data-id'))).toEqual(['3', '1', '2']);
+    });
+
+    it('should wait for the loads of the infinite scroll', async () => {
+        harness.addItems(3);
+        harness.create(50, undefined, {
+            loader: { loadNext: async () => [document.createElement('div')] },
+        });
+
+        const load = harness.waitForLoad('bottom');
+        harness.scrollTo('bottom');
+
+        await expect(load).resolves.toMatchObject({ direction: PureInfiniteScrollEvent.ScrolledBottom, status: 'completed' });
+        expect(harness.container.scrollHeight).toBe(400);
+    });
+
+    it('should reject when no load ends in time', async () => {
+        harness.create(50);
+
+        await expect(harness.waitForLoad('top', 10)).rejects.toThrow('PureInfiniteScroll: no load ended at the top within 10ms.');
+    });
+
+    it('should restore the geometry on destroy', () => {
+        const container = document.createElement('div');
+        const ownHarness = new PureInfiniteScrollHarness({ container, clientSize: 300 });
+
+        expect(container.clientHeight).toBe(300);
+
+        ownHarness.destroy();
+
+        expect(container.clientHeight).toBe(0);
+        expect(container.getBoundingClientRect().height).toBe(0);
+    });
+
+    it('should restore the native geometry once every harness is destroyed', () => {
+        const otherHarness = new PureInfiniteScrollHarness();
+        const [item] = otherHarness.addItems(1);
+
+        harness.destroy();
+
+        // The other harness still lays out its items
+        expect(item.getBoundingClientRect().height).toBe(100);
+
+        otherHarness.destroy();
+
+        expect(Element.prototype.getBoundingClientRect).toBe(nativeGetBoundingClientRect);
+    });
+});
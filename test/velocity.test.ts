@@ -0,0 +1,57 @@
+import { VelocityTracker } from "../src/velocity";
+import { describe, expect, it } from 'vitest';
+
+describe('VelocityTracker', () => {
+    it('should report no velocity without enough samples', () => {
+        const tracker = new VelocityTracker();
+
+        expect(tracker.getVelocity(0)).toBe(0);
+
+        tracker.record(100, 0);
+        expect(tracker.getVelocity(0)).toBe(0);
+    });
+
+    it('should report the velocity in pixels per second, positive towards the end', () => {
+        const tracker = new VelocityTracker();
+
+        tracker.record(100, 0);
+        tracker.record(150, 50);
+        expect(tracker.getVelocity(50)).toBe(1000);
+
+        tracker.record(100, 100);
+        expect(tracker.getVelocity(100)).toBe(0);
+
+        tracker.record(0, 150);
+        expect(tracker.getVelocity(150)).toBe(-1500);
+    });
+
+    it('should only measure the recent samples', () => {
+        const tracker = new VelocityTracker(100);
+
+        tracker.record(0, 0);
+        tracker.record(1000, 100);
+        tracker.record(1010, 200);
+        tracker.record(1020, 300);
+
+        expect(tracker.getVelocity(300)).toBe(100);
+    });
+
+    it('should report no velocity once the scrolling stopped', () => {
+        const tracker = new VelocityTracker(100);
+
+        tracker.record(0, 0);
+        tracker.record(100, 50);
+
+        expect(tracker.getVelocity(150)).toBe(0);
+    });
+
+    it('should forget the samples when cleared', () => {
+        const tracker = new VelocityTracker();
+
+        tracker.record(0, 0);
+        tracker.record(100, 50);
+        tracker.clear();
+
+        expect(tracker.getVelocity(50)).toBe(0);
+    });
+});
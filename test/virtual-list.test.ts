@@ -0,0 +1,140 @@
+import { VirtualList } from "../src/virtual-list";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('VirtualList', () => {
+    let container: HTMLElement;
+    let contentContainer: HTMLElement;
+
+    const render = (item: number) => {
+        const element = document.createElement('div');
+        element.textContent = String(item);
+        return element;
+    };
+
+    const range = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+    const renderedItems = () => Array.from(contentContainer.children).map((child) => Number(child.textContent));
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        contentContainer = document.createElement('div');
+
+        container.appendChild(contentContainer);
+        document.body.appendChild(container);
+
+        Object.defineProperty(container, 'clientHeight', { value: 200 });
+    });
+
+    afterEach(() => {
+        document.body.removeChild(container);
+        vi.unstubAllGlobals();
+    });
+
+    describe('Fixed item height', () => {
+        it('should render only the visible items plus the overscan', () => {
+            const list = new VirtualList(container, contentContainer, render, { itemHeight: 20, overscan: 2 });
+            list.append(range(0, 1000));
+
+            // 200px viewport / 20px items = 10 visible items, + 1 partially visible, + 2 overscan
+            expect(renderedItems()).toEqual(range(0, 13));
+            expect(contentContainer.style.paddingTop).toBe('0px');
+            expect(contentContainer.style.paddingBottom).toBe(`${(1000 - 13) * 20}px`);
+        });
+
+        it('should move the range when scrolled', () => {
+            const list = new VirtualList(container, contentContainer, render, { itemHeight: 20, overscan: 2 });
+            list.append(range(0, 1000));
+
+            container.scrollTop = 2000;
+            list.update();
+
+            expect(list.range).toEqual({ start: 98, end: 113 });
+            expect(renderedItems()).toEqual(range(98, 113));
+            expect(contentContainer.style.paddingTop).toBe(`${98 * 20}px`);
+        });
+
+        it('should reuse the nodes of the items which stay rendered', () => {
+            const list = new VirtualList(container, contentContainer, render, { itemHeight: 20, overscan: 0 });
+            list.append(range(0, 100));
+            const node = contentContainer.children[5];
+
+            container.scrollTop = 40;
+            list.update();
+
+            expect(contentContainer.children[3]).toBe(node);
+        });
+
+        it('should report the prepended height and shift the rendered range', () => {
+            const list = new VirtualList(container, contentContainer, render, { itemHeight: 20, overscan: 0 });
+            list.append(range(10, 100));
+
+            expect(list.prepend(range(0, 10))).toBe(200);
+            expect(list.range).toEqual({ start: 10, end: 21 });
+            expect(list.length).toBe(100);
+        });
+
+        it('should report when the range reaches either end', () => {
+            const list = new VirtualList(container, contentContainer, render, { itemHeight: 20, overscan: 2 });
+            list.append(range(0, 20));
+
+            expect(list.isNearStart).toBe(true);
+            expect(list.isNearEnd).toBe(false);
+
+            container.scrollTop = 200;
+            list.update();
+
+            expect(list.isNearStart).toBe(false);
+            expect(list.isNearEnd).toBe(true);
+        });
+    });
+
+    describe('Measured item height', () => {
+        let resizeCallback: (entries: Partial<ResizeObserverEntry>[]) => void;
+
+        beforeEach(() => {
+            vi.stubGlobal('ResizeObserver', class {
+                constructor(callback: typeof resizeCallback) {
+                    resizeCallback = callback;
+                }
+                observe() {}
+                unobserve() {}
+                disconnect() {}
+            });
+        });
+
+        it('should use the estimated height until the items are measured', () => {
+            const list = new VirtualList(container, contentContainer, render, { estimatedItemHeight: 40, overscan: 0 });
+            list.append(range(0, 100));
+
+            expect(list.totalHeight).toBe(4000);
+            expect(list.range).toEqual({ start: 0, end: 6 });
+        });
+
+        it('should update the offsets with the measured heights', () => {
+            const list = new VirtualList(container, contentContainer, render, { estimatedItemHeight: 40, overscan: 0 });
+            list.append(range(0, 100));
+
+            const target = contentContainer.children[0] as HTMLElement;
+            Object.defineProperty(target, 'offsetHeight', { value: 100 });
+            resizeCallback([{ target }]);
+
+            expect(list.getOffset(1)).toBe(100);
+            expect(list.totalHeight).toBe(4060);
+            expect(list.getIndexAt(150)).toBe(2);
+        });
+
+        it('should compensate items resized above the visible area', () => {
+            const list = new VirtualList(container, contentContainer, render, { estimatedItemHeight: 40, overscan: 2 });
+            list.append(range(0, 100));
+
+            container.scrollTop = 120;
+            list.update();
+
+            const target = contentContainer.children[0] as HTMLElement;
+            Object.defineProperty(target, 'offsetHeight', { value: 60 });
+            resizeCallback([{ target }]);
+
+            expect(container.scrollTop).toBe(140);
+        });
+    });
+});
@@ -0,0 +1,2 @@
+export { PureInfiniteScrollHarness } from "./src/testing";
+export type { PureInfiniteScrollHarnessOptions, PureInfiniteScrollHarnessPosition } from "./src/testing";
@@ -1,3 +1,7 @@
 interface Window {
     PureInfiniteScroll: typeof import('./src/infinite-scroll').PureInfiniteScroll;
-}
\ No newline at end of file
+}
+
+interface HTMLElementTagNameMap {
+    'pure-infinite-scroll': import('./src/element').PureInfiniteScrollElement;
+}